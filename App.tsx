@@ -1,19 +1,13 @@
-import React, { useState, useEffect, useRef, ErrorInfo, ReactNode, Component } from 'react';
-import {
-  Message,
-  MindMapNode,
-  ProjectionScenario,
-  ComparisonData,
-  DecisionTreeData,
-  SWOTAnalysis,
-  CostBenefitAnalysis,
-  TimelineData
-} from './types';
+import React, { useState, useEffect, useRef, useMemo, ErrorInfo, ReactNode, Component } from 'react';
+import { Message, MindMapNode, MindMapEdit, ChatNode, ChatTree, DecisionSession } from './types';
 import { useTheme } from './contexts/ThemeContext';
+import { useSessions } from './contexts/SessionContext';
 import ChatInterface from './components/ChatInterface';
 import MindMap from './components/MindMap';
 import ProjectionView from './components/ProjectionView';
 import ComparisonView from './components/ComparisonView';
+import SensitivityView from './components/SensitivityView';
+import SimulationView from './components/SimulationView';
 import DecisionTree from './components/DecisionTree';
 import SWOTView from './components/SWOTView';
 import CostBenefitView from './components/CostBenefitView';
@@ -21,8 +15,38 @@ import TimelineView from './components/TimelineView';
 import QuickActions from './components/QuickActions';
 // GradientBackground removed for neumorphic design
 import ThemeToggle from './components/ThemeToggle';
+import ProviderSelector from './components/ProviderSelector';
+import SessionSidebar from './components/SessionSidebar';
+import GenerationError from './components/GenerationError';
+import AnalysisModeSelector from './components/AnalysisModeSelector';
+import ExportMenu from './components/ExportMenu';
+import ShareButton from './components/ShareButton';
+import { DEFAULT_SESSION_NAME } from './services/sessionStore';
+import { saveSharedCopy } from './services/shareLink';
+import { buildRoute, currentRoute } from './utils/routing';
+import {
+  getActivePath,
+  getPathTo,
+  getSiblingInfo,
+  addMessage,
+  addSibling,
+  updateMessage,
+  removeMessage,
+  switchSibling
+} from './utils/chatTree';
+import { createId } from './utils/id';
+import { deriveAnalysis } from './utils/decisionModel';
+import { summarizeMindMapEdits } from './utils/mindMapEdit';
+import { mergeMindMap } from './utils/mindMapMerge';
+import { cacheAnalysis, restoreAnalysis } from './utils/analysisCache';
+import { overlayInstantMindMap } from './utils/instantMindMap';
+import { ReportFormat, buildReport, reportToMarkdown, reportToHtml } from './utils/report';
+import { downloadText, printHtml, toFilename } from './utils/download';
 import {
   sendMessageStream,
+  isAbortError,
+  generateDecisionModel,
+  getAnalysisMode,
   generateMindMapData,
   generateProjectionData,
   generateComparisonData,
@@ -30,7 +54,8 @@ import {
   generateSWOTAnalysis,
   generateCostBenefit,
   generateTimelineData
-} from './services/deepseekService';
+} from './services/aiService';
+import { AIError, toAIError, describeAIError } from './services/errors';
 import {
   GitBranch,
   TrendingUp,
@@ -38,12 +63,17 @@ import {
   AlertCircle,
   Maximize2,
   Scale,
-  Download,
   Network,
   Target,
   Calendar,
   BarChart3,
-  Navigation
+  Activity,
+  Dices,
+  Navigation,
+  PanelLeft,
+  Lock,
+  Save,
+  X
 } from 'lucide-react';
 
 interface VisErrorBoundaryProps {
@@ -118,7 +148,7 @@ class VisErrorBoundary extends Component<VisErrorBoundaryProps, VisErrorBoundary
   }
 }
 
-type TabType = 'mindmap' | 'tree' | 'swot' | 'costbenefit' | 'timeline' | 'projection' | 'compare';
+type TabType = 'mindmap' | 'tree' | 'swot' | 'costbenefit' | 'timeline' | 'projection' | 'compare' | 'sensitivity' | 'simulation';
 
 const tabConfig: { id: TabType; label: string; icon: React.ElementType; group: 'visual' | 'analysis' | 'time' }[] = [
   { id: 'mindmap', label: 'Map', icon: Network, group: 'visual' },
@@ -126,239 +156,473 @@ const tabConfig: { id: TabType; label: string; icon: React.ElementType; group: '
   { id: 'swot', label: 'SWOT', icon: Target, group: 'analysis' },
   { id: 'costbenefit', label: 'Cost/Benefit', icon: Scale, group: 'analysis' },
   { id: 'compare', label: 'Compare', icon: BarChart3, group: 'analysis' },
+  { id: 'sensitivity', label: 'Sensitivity', icon: Activity, group: 'analysis' },
+  { id: 'simulation', label: 'Simulate', icon: Dices, group: 'analysis' },
   { id: 'timeline', label: 'Timeline', icon: Calendar, group: 'time' },
   { id: 'projection', label: 'Outcomes', icon: TrendingUp, group: 'time' },
 ];
 
-const App: React.FC = () => {
+const isTabType = (value: string | null): value is TabType => tabConfig.some(tab => tab.id === value);
+
+// Tabs that show one option at a time; only these carry the selected option in the URL
+const optionTabs: TabType[] = ['swot', 'costbenefit'];
+
+// How each tab's data is generated and where it is stored on the session
+// Tabs without a generator (e.g. sensitivity) are computed locally from another tab's data
+const tabGenerators: Partial<Record<TabType, (history: Message[], signal: AbortSignal) => Promise<Partial<DecisionSession>>>> = {
+  mindmap: async (history, signal) => ({ mindMap: await generateMindMapData(history, signal) }),
+  tree: async (history, signal) => ({ decisionTree: await generateDecisionTree(history, signal) }),
+  swot: async (history, signal) => ({ swot: await generateSWOTAnalysis(history, signal) }),
+  costbenefit: async (history, signal) => ({ costBenefit: await generateCostBenefit(history, signal) }),
+  compare: async (history, signal) => ({ comparison: await generateComparisonData(history, signal) }),
+  timeline: async (history, signal) => ({ timeline: await generateTimelineData(history, signal) }),
+  projection: async (history, signal) => ({ projections: await generateProjectionData(history, signal) }),
+};
+
+const generatedTabs = tabConfig.filter(tab => tabGenerators[tab.id]);
+
+// Applies freshly generated data; a new mind map is merged into the current one instead of replacing it
+const applyGenerated = (session: DecisionSession, patch: Partial<DecisionSession>): DecisionSession => ({
+  ...session,
+  ...patch,
+  ...(patch.mindMap ? { mindMap: mergeMindMap(session.mindMap, patch.mindMap) } : {}),
+});
+
+interface AppProps {
+  // Shared links: the decision can be browsed and exported, but nothing runs or changes
+  readOnly?: boolean;
+}
+
+const App: React.FC<AppProps> = ({ readOnly }) => {
   const { isDark } = useTheme();
+  const { sessions, activeSession, updateSession, renameSession, switchSession, saveFailed } = useSessions();
 
   // State
-  const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [isChatLoading, setIsChatLoading] = useState(false);
-  const [activeTab, setActiveTab] = useState<TabType>('mindmap');
-
-  // Visualization Data State
-  const [mindMapData, setMindMapData] = useState<MindMapNode | null>(null);
-  const [projectionData, setProjectionData] = useState<ProjectionScenario[]>([]);
-  const [comparisonData, setComparisonData] = useState<ComparisonData | null>(null);
-  const [decisionTreeData, setDecisionTreeData] = useState<DecisionTreeData | null>(null);
-  const [swotData, setSWOTData] = useState<SWOTAnalysis | null>(null);
-  const [costBenefitData, setCostBenefitData] = useState<CostBenefitAnalysis | null>(null);
-  const [timelineData, setTimelineData] = useState<TimelineData | null>(null);
+  // Tab and option start from the URL so deep links reopen the same view
+  const [activeTab, setActiveTab] = useState<TabType>(() => {
+    const { tab } = currentRoute();
+    return isTabType(tab) ? tab : 'mindmap';
+  });
+  const [selectedOption, setSelectedOption] = useState<string | null>(() => currentRoute().option);
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const [settingsVersion, setSettingsVersion] = useState(0);
+
+  // Conversation & Visualization Data (owned by the active session)
+  const {
+    chat,
+    mindMap: mindMapData,
+    projections: projectionData,
+    comparison: comparisonData,
+    decisionTree: decisionTreeData,
+    swot: swotData,
+    costBenefit: costBenefitData,
+    timeline: timelineData
+  } = activeSession;
+  // Memoized so views that depend on the branch only recompute when the chat changes
+  const messages = useMemo(() => getActivePath(chat), [chat]);
+  const activeLeafId = messages.length ? messages[messages.length - 1].id : null;
   const [isVisLoading, setIsVisLoading] = useState(false);
   const [visError, setVisError] = useState<string | null>(null);
+  // Why each view failed in the last analysis, and which one is being retried
+  const [tabErrors, setTabErrors] = useState<Partial<Record<TabType, AIError>>>({});
+  const [retryingTab, setRetryingTab] = useState<TabType | null>(null);
+
+  // Analyses built on another branch no longer match what the user sees
+  const hasAnalysis = Boolean(projectionData.length || comparisonData || decisionTreeData || swotData || costBenefitData || timelineData);
+  const isAnalysisStale = hasAnalysis && !!activeSession.analyzedLeafId && !messages.some(m => m.id === activeSession.analyzedLeafId);
+
+  // Session whose generated mind map is on its way
+  const [mindMapPendingFor, setMindMapPendingFor] = useState<string | null>(null);
+
+  // While a reply streams (or its generated map is pending) the map is drawn from the reply text as it
+  // arrives; the generated map takes over once both are done
+  const isReplyStreaming = messages.some(m => m.isStreaming);
+  const showProvisionalMap = isReplyStreaming || mindMapPendingFor === activeSession.id;
+  const displayedMindMap = useMemo(
+    () => showProvisionalMap ? overlayInstantMindMap(mindMapData, messages) : mindMapData,
+    [showProvisionalMap, mindMapData, messages]
+  );
 
-  // Background update state
-  const [isBackgroundUpdating, setIsBackgroundUpdating] = useState(false);
-
-  // Refs for caching (used by other visualizations)
-  const lastConversationHashRef = useRef<string>('');
-
-  // Generate a simple hash of conversation for cache checking (for other viz)
-  const getConversationHash = (msgs: Message[]): string => {
-    return msgs.map(m => `${m.role}:${m.text.slice(0, 50)}`).join('|');
+  // In-flight requests by kind; starting a newer one aborts the one it supersedes
+  const chatAbortRef = useRef<AbortController | null>(null);
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  const mindMapAbortRef = useRef<AbortController | null>(null);
+  const retryAbortRef = useRef<AbortController | null>(null);
+
+  const startRequest = (ref: React.MutableRefObject<AbortController | null>) => {
+    ref.current?.abort();
+    const controller = new AbortController();
+    ref.current = controller;
+    return controller;
   };
 
-  // Background API update (optional - for higher quality, can be toggled)
-  const updateMindMapBackground = async () => {
-    if (isBackgroundUpdating) return;
-
-    const currentHash = getConversationHash(messages);
-    if (currentHash === lastConversationHashRef.current) {
-      return;
+  // The address bar mirrors session, tab and option: each change adds a history entry, except the
+  // first render, which only tidies the URL it was opened with
+  const isFirstRouteRef = useRef(true);
+  const routePath = () => {
+    const route = currentRoute();
+    return buildRoute({
+      ...route,
+      // Shared views are addressed by their token
+      sessionId: route.shareToken ? null : activeSession.id,
+      tab: activeTab,
+      option: optionTabs.includes(activeTab) ? selectedOption : null,
+    });
+  };
+  useEffect(() => {
+    const path = routePath();
+    if (path !== window.location.pathname + window.location.search) {
+      if (isFirstRouteRef.current) window.history.replaceState(null, '', path);
+      else window.history.pushState(null, '', path);
     }
-
-    setIsBackgroundUpdating(true);
-    try {
-      const mapData = await safeGenerate(generateMindMapData(messages));
-      if (mapData) {
-        lastConversationHashRef.current = currentHash;
-        setMindMapData(mapData); // Override with higher quality API data
-      }
-    } catch (e) {
-      console.warn("API mind map update failed, using instant version", e);
-    } finally {
-      setIsBackgroundUpdating(false);
+    isFirstRouteRef.current = false;
+  }, [activeSession.id, activeTab, selectedOption]);
+
+  // Back / forward: restore the view the URL describes. Reached through a ref so the listener
+  // registered once always sees the current sessions
+  const handlePopStateRef = useRef<() => void>(() => {});
+  handlePopStateRef.current = () => {
+    const route = currentRoute();
+    if (route.sessionId && !sessions.some(s => s.id === route.sessionId)) {
+      // The session was deleted since; stay on the current view and correct the entry instead
+      window.history.replaceState(null, '', routePath());
+      return;
     }
+    if (route.sessionId) switchSession(route.sessionId);
+    setActiveTab(isTabType(route.tab) ? route.tab : 'mindmap');
+    setSelectedOption(route.option);
   };
+  useEffect(() => {
+    const handlePopState = () => handlePopStateRef.current();
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  // Reset per-session state whenever the user switches to another session
+  useEffect(() => {
+    retryAbortRef.current?.abort();
+    setVisError(null);
+    setTabErrors({});
+  }, [activeSession.id]);
 
-  // Chat Handler - with PARALLEL mind map generation
-  const handleSend = async () => {
-    if (!input.trim()) return;
+  const updateChat = (sessionId: string, updater: (tree: ChatTree) => ChatTree) =>
+    updateSession(sessionId, s => ({ ...s, chat: updater(s.chat) }));
 
-    const userMsg: Message = { role: 'user', text: input, timestamp: new Date() };
-    const updatedMessages = [...messages, userMsg];
-    setMessages(updatedMessages);
-    setInput('');
-    setIsChatLoading(true);
-
-    // START MIND MAP GENERATION IN PARALLEL (don't await - let it run alongside chat)
-    const mindMapPromise = (async () => {
+  // START MIND MAP GENERATION IN PARALLEL (don't await - let it run alongside chat)
+  const refreshMindMap = (sessionId: string, history: Message[], userEdits?: string | null) => {
+    const controller = startRequest(mindMapAbortRef);
+    setMindMapPendingFor(sessionId);
+    (async () => {
       try {
-        const mapData = await generateMindMapData(updatedMessages);
+        const mapData = await generateMindMapData(history, controller.signal, userEdits);
         if (mapData) {
-          setMindMapData(mapData);
+          updateSession(sessionId, s => applyGenerated(s, { mindMap: mapData }));
         }
       } catch (e) {
-        console.warn("Parallel mind map generation failed:", e);
+        if (!isAbortError(e)) console.warn("Parallel mind map generation failed:", e);
+      } finally {
+        if (mindMapAbortRef.current === controller) {
+          mindMapAbortRef.current = null;
+          setMindMapPendingFor(null);
+        }
       }
     })();
+  };
 
-    try {
-      const stream = sendMessageStream(input);
-      let fullResponse = '';
-
-      // Optimistic update for bot message
-      setMessages(prev => [...prev, { role: 'model', text: '', timestamp: new Date(), isStreaming: true }]);
+  // Streams a model reply to `history` (ending with a user message) into the chat tree.
+  // A new reply goes under the last message; `siblingOf` adds it as an alternative to an existing reply.
+  // All writes target the session that started the request, even if the user switches away.
+  // `note` is turn-only context for the model that is not shown in the chat.
+  const streamReply = async (
+    sessionId: string,
+    history: ChatNode[],
+    siblingOf?: string,
+    note?: string | null
+  ): Promise<{ history: Message[]; leafId: string } | null> => {
+    const replyId = createId();
+    const placeholder = { id: replyId, role: 'model' as const, text: '', timestamp: new Date(), isStreaming: true };
+    const parentId = history[history.length - 1].id;
+
+    // Optimistic update for bot message
+    updateChat(sessionId, tree => siblingOf
+      ? addSibling(tree, siblingOf, placeholder).tree
+      : addMessage(tree, parentId, placeholder).tree
+    );
+    setIsChatLoading(true);
+    const controller = startRequest(chatAbortRef);
 
-      for await (const chunk of stream) {
+    let fullResponse = '';
+    try {
+      for await (const chunk of sendMessageStream(history, controller.signal, note)) {
         fullResponse += chunk;
-        setMessages(prev =>
-          prev.map((msg, idx) =>
-            idx === prev.length - 1 ? { ...msg, text: fullResponse } : msg
-          )
-        );
+        updateChat(sessionId, tree => updateMessage(tree, replyId, { text: fullResponse }));
       }
 
       // Mark streaming as done
-      setMessages(prev =>
-        prev.map((msg, idx) =>
-          idx === prev.length - 1 ? { ...msg, isStreaming: false } : msg
-        )
-      );
-
+      updateChat(sessionId, tree => updateMessage(tree, replyId, { isStreaming: false }));
+      return {
+        history: [...history, { role: 'model', text: fullResponse, timestamp: new Date() }],
+        leafId: replyId
+      };
     } catch (error: any) {
+      if (isAbortError(error)) {
+        // Stopped by the user: keep whatever arrived, drop an empty placeholder
+        updateChat(sessionId, tree => fullResponse
+          ? updateMessage(tree, replyId, { isStreaming: false })
+          : removeMessage(tree, replyId)
+        );
+        return null;
+      }
       console.error("Chat error:", error);
       const errorMessage = error?.message || "Sorry, I encountered an error. Please try again.";
-      setMessages(prev => [...prev, { role: 'model', text: `Error: ${errorMessage}`, timestamp: new Date() }]);
+      const errorReply = { role: 'model' as const, text: `Error: ${errorMessage}`, timestamp: new Date(), isError: true };
+      updateChat(sessionId, tree => fullResponse
+        // Keep the partial reply and put the error after it
+        ? addMessage(updateMessage(tree, replyId, { isStreaming: false }), replyId, errorReply).tree
+        // Nothing arrived - the placeholder itself becomes the error
+        : updateMessage(tree, replyId, { ...errorReply, isStreaming: false })
+      );
+      return null;
     } finally {
-      setIsChatLoading(false);
+      if (chatAbortRef.current === controller) {
+        chatAbortRef.current = null;
+        setIsChatLoading(false);
+      }
     }
   };
 
-  // Helper to safely execute a promise and return null on failure instead of throwing
-  const safeGenerate = async <T,>(promise: Promise<T>): Promise<T | null> => {
-    try {
-      return await promise;
-    } catch (e) {
-      console.warn("Generation component failed:", e);
-      return null;
+  const handleStop = () => chatAbortRef.current?.abort();
+
+  // Sends a new message at the end of the active branch
+  const sendMessage = async (text: string) => {
+    const sessionId = activeSession.id;
+
+    // Name fresh sessions after their first question
+    if (messages.length === 0 && activeSession.name === DEFAULT_SESSION_NAME) {
+      renameSession(sessionId, text.length > 40 ? `${text.slice(0, 40)}...` : text);
+    }
+
+    const userMsg: ChatNode = { id: createId(), parentId: activeLeafId, role: 'user', text, timestamp: new Date() };
+    updateChat(sessionId, tree => addMessage(tree, activeLeafId, userMsg).tree);
+    setInput('');
+
+    // Mind map edits made since the last turn go along with this message
+    const reportedEdits = activeSession.mindMapEdits || [];
+    const editsNote = summarizeMindMapEdits(reportedEdits);
+
+    const history = [...messages, userMsg];
+    refreshMindMap(sessionId, history, editsNote);
+    const result = await streamReply(sessionId, history, undefined, editsNote);
+    if (result && reportedEdits.length) {
+      // Edits made while the reply streamed stay pending for the next turn
+      updateSession(sessionId, s => ({ ...s, mindMapEdits: (s.mindMapEdits || []).slice(reportedEdits.length) }));
     }
   };
 
-  // Full Analysis Handler (Manual Trigger)
-  const handleAnalyze = async () => {
-    if (messages.length < 2) return;
+  // Chat Handler
+  const handleSend = async () => {
+    if (!input.trim() || isChatLoading) return;
+    await sendMessage(input);
+  };
+
+  // Editing a user message forks a new branch from that point and answers it
+  const handleEditMessage = async (id: string, text: string) => {
+    const original = chat.nodes[id];
+    if (!original || original.role !== 'user' || !text.trim()) return;
+    const sessionId = activeSession.id;
+
+    const userMsg: ChatNode = { id: createId(), parentId: original.parentId, role: 'user', text, timestamp: new Date() };
+    updateChat(sessionId, tree => addSibling(tree, id, userMsg).tree);
+
+    const history = [...(original.parentId ? getPathTo(chat, original.parentId) : []), userMsg];
+    refreshMindMap(sessionId, history);
+    const result = await streamReply(sessionId, history);
+    if (result && hasAnalysis) {
+      await runAnalysis(sessionId, result.history, result.leafId);
+    }
+  };
+
+  // Regenerating keeps the old reply as a sibling the user can flip back to
+  const handleRegenerate = async (id: string) => {
+    let original = chat.nodes[id];
+    // An error shown after a partial reply regenerates that reply
+    if (original?.isError && original.parentId && chat.nodes[original.parentId]?.role === 'model') {
+      original = chat.nodes[original.parentId];
+    }
+    if (!original || original.role !== 'model' || !original.parentId) return;
+    const sessionId = activeSession.id;
+
+    const result = await streamReply(sessionId, getPathTo(chat, original.parentId), original.id);
+    if (result && hasAnalysis) {
+      await runAnalysis(sessionId, result.history, result.leafId);
+    }
+  };
+
+  // The views follow the branch: an analysis kept for it is restored, otherwise it is analyzed afresh
+  const handleSwitchBranch = (id: string, direction: -1 | 1) => {
+    const sessionId = activeSession.id;
+    if (!hasAnalysis) {
+      updateChat(sessionId, tree => switchSibling(tree, id, direction));
+      return;
+    }
+    const switchTo = (s: DecisionSession) => {
+      const switched = cacheAnalysis({ ...s, chat: switchSibling(s.chat, id, direction) });
+      return restoreAnalysis(switched) ?? switched;
+    };
+    const next = switchTo(activeSession);
+    updateSession(sessionId, switchTo);
+    if (next.analyzedLeafId !== activeSession.analyzedLeafId) {
+      // A run still going for the branch just left would overwrite the restored views
+      analysisAbortRef.current?.abort();
+      setTabErrors({});
+    } else if (!readOnly && !isChatLoading && !restoreAnalysis(next)) {
+      const path = getActivePath(next.chat);
+      runAnalysis(sessionId, path, path.length ? path[path.length - 1].id : null);
+    }
+  };
+
+  // Runs all seven analyses against one branch of the conversation
+  const runAnalysis = async (sessionId: string, history: Message[], leafId: string | null) => {
+    if (history.length < 2) return;
+    const controller = startRequest(analysisAbortRef);
+    const { signal } = controller;
+    // The analysis builds its own mind map (and every view), so pending partial work is superseded
+    mindMapAbortRef.current?.abort();
+    retryAbortRef.current?.abort();
     setIsVisLoading(true);
     setVisError(null);
 
     try {
-      // Run all generations in parallel but catch individual errors so partial results still show
-      const [mapData, projData, compData, treeData, swotResult, cbData, tlData] = await Promise.all([
-        safeGenerate(generateMindMapData(messages)),
-        safeGenerate(generateProjectionData(messages)),
-        safeGenerate(generateComparisonData(messages)),
-        safeGenerate(generateDecisionTree(messages)),
-        safeGenerate(generateSWOTAnalysis(messages)),
-        safeGenerate(generateCostBenefit(messages)),
-        safeGenerate(generateTimelineData(messages))
-      ]);
+      if (getAnalysisMode() === 'unified') {
+        // One call extracts the canonical model; every view is derived from it locally
+        const model = await generateDecisionModel(history, signal);
+        if (signal.aborted) return;
+        setTabErrors({});
+        updateSession(sessionId, s => applyGenerated(cacheAnalysis(s), { analyzedLeafId: leafId, decisionModel: model, ...deriveAnalysis(model) }));
+        return;
+      }
+
+      // Detailed mode: run all generations in parallel; failures are kept per tab so partial results still show
+      const results = await Promise.allSettled(generatedTabs.map(tab => tabGenerators[tab.id]!(history, signal)));
+
+      // Cancelled or superseded: leave the previous analysis untouched
+      if (signal.aborted) return;
+
+      const errors: Partial<Record<TabType, AIError>> = {};
+      // Views that fail are cleared rather than left showing an older analysis. The mind map is the
+      // exception: it carries the user's edits and collapse state, so only a new map replaces it
+      const patch: Partial<DecisionSession> = {
+        analyzedLeafId: leafId,
+        decisionModel: null,
+        projections: [],
+        comparison: null,
+        decisionTree: null,
+        swot: null,
+        costBenefit: null,
+        timeline: null
+      };
+      results.forEach((result, i) => {
+        const tab = generatedTabs[i];
+        if (result.status === 'fulfilled') {
+          Object.assign(patch, result.value);
+        } else {
+          console.warn(`${tab.label} generation failed:`, result.reason);
+          errors[tab.id] = toAIError(result.reason);
+        }
+      });
+      setTabErrors(errors);
 
       // We do not throw error if at least ONE succeeded.
       // If ALL failed, then we show error.
-      const anySuccess = mapData || (projData && projData.length > 0) || compData || treeData || swotResult || cbData || tlData;
-      if (!anySuccess) {
-        throw new Error("Could not generate analysis. Please try elaborating on your situation.");
+      const failures = Object.values(errors);
+      if (failures.length === generatedTabs.length) {
+        throw failures[0];
       }
 
-      setMindMapData(mapData);
-      setProjectionData(projData || []);
-      setComparisonData(compData);
-      setDecisionTreeData(treeData);
-      setSWOTData(swotResult);
-      setCostBenefitData(cbData);
-      setTimelineData(tlData);
+      updateSession(sessionId, s => applyGenerated(cacheAnalysis(s), patch));
 
     } catch (err: any) {
+      if (isAbortError(err)) return;
       console.error("Analysis Error", err);
-      setVisError(err.message || "Failed to analyze conversation.");
+      const { title, hint } = describeAIError(toAIError(err));
+      setVisError(`Could not generate analysis: ${title}. ${hint}`);
     } finally {
-      setIsVisLoading(false);
+      if (analysisAbortRef.current === controller) {
+        analysisAbortRef.current = null;
+        setIsVisLoading(false);
+      }
     }
   };
 
-  const handleNodeUpdate = (updatedNode: MindMapNode) => {
-    console.log("Node updated:", updatedNode);
+  // Full Analysis Handler (Manual Trigger)
+  const handleAnalyze = () => runAnalysis(activeSession.id, messages, activeLeafId);
+
+  const handleCancelAnalysis = () => analysisAbortRef.current?.abort();
+
+  // Regenerates a single failed view against the same branch the rest of the analysis used
+  const handleRetryTab = async (tab: TabType) => {
+    const generate = tabGenerators[tab];
+    if (!generate) return;
+    const sessionId = activeSession.id;
+    const analyzedLeafId = activeSession.analyzedLeafId;
+    const history = analyzedLeafId && chat.nodes[analyzedLeafId] ? getPathTo(chat, analyzedLeafId) : messages;
+    const controller = startRequest(retryAbortRef);
+    setRetryingTab(tab);
+
+    try {
+      const patch = await generate(history, controller.signal);
+      updateSession(sessionId, s => applyGenerated(s, patch));
+      setTabErrors(prev => {
+        const { [tab]: _fixed, ...rest } = prev;
+        return rest;
+      });
+    } catch (e) {
+      if (isAbortError(e)) return;
+      console.warn(`Retry of ${tab} failed:`, e);
+      setTabErrors(prev => ({ ...prev, [tab]: toAIError(e) }));
+    } finally {
+      if (retryAbortRef.current === controller) {
+        retryAbortRef.current = null;
+        setRetryingTab(null);
+      }
+    }
+  };
+
+
+  // Saves mind map edits and queues them to be shared with the next message
+  const handleMindMapChange = (mindMap: MindMapNode, edits: MindMapEdit[]) => {
+    updateSession(activeSession.id, s => ({ ...s, mindMap, mindMapEdits: [...(s.mindMapEdits || []), ...edits] }));
+  };
+
+  // Report of the conversation on the active branch and every analysis of the session
+  const handleExport = (format: ReportFormat) => {
+    const title = activeSession.name;
+    const blocks = buildReport(activeSession, messages);
+    const filename = `${toFilename(title)}-report`;
+    if (format === 'markdown') {
+      downloadText(reportToMarkdown(title, blocks), `${filename}.md`, 'text/markdown');
+      return;
+    }
+    const html = reportToHtml(title, blocks);
+    // With pop-ups blocked, the page itself can still be printed once downloaded
+    if (format === 'html' || !printHtml(html)) {
+      downloadText(html, `${filename}.html`, 'text/html');
+    }
   };
 
-  const handleExport = () => {
-    const text = messages.map(m => `[${m.role.toUpperCase()}] ${m.timestamp.toLocaleTimeString()}:\n${m.text}\n`).join('\n') +
-      "\n--- ANALYSIS SUMMARY ---\n" +
-      (comparisonData ? `Best Option: ${comparisonData.rows.find(r => r.isRecommended)?.optionName || 'None'}\n` : '') +
-      "Pathfinder Export";
-
-    const blob = new Blob([text], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'pathfinder-decision.txt';
-    a.click();
-    URL.revokeObjectURL(url);
+  // Keeps a shared decision among the visitor's own sessions and leaves the viewer for the app
+  const handleSaveCopy = () => {
+    const sessionId = saveSharedCopy(activeSession);
+    window.location.assign(buildRoute({ shareToken: null, sessionId, tab: activeTab, option: optionTabs.includes(activeTab) ? selectedOption : null }));
   };
 
   // Quick action handler - sends a prompt directly to chat (with parallel mind map)
   const handleQuickAction = async (prompt: string) => {
     setInput(prompt);
     // Delay slightly to show the input, then send
-    setTimeout(() => {
-      const userMsg: Message = { role: 'user', text: prompt, timestamp: new Date() };
-      const updatedMessages = [...messages, userMsg];
-      setMessages(updatedMessages);
-      setInput('');
-      setIsChatLoading(true);
-
-      // START MIND MAP GENERATION IN PARALLEL
-      (async () => {
-        try {
-          const mapData = await generateMindMapData(updatedMessages);
-          if (mapData) setMindMapData(mapData);
-        } catch (e) {
-          console.warn("Parallel mind map generation failed:", e);
-        }
-      })();
-
-      (async () => {
-        try {
-          const stream = sendMessageStream(prompt);
-          let fullResponse = '';
-
-          setMessages(prev => [...prev, { role: 'model', text: '', timestamp: new Date(), isStreaming: true }]);
-
-          for await (const chunk of stream) {
-            fullResponse += chunk;
-            setMessages(prev =>
-              prev.map((msg, idx) =>
-                idx === prev.length - 1 ? { ...msg, text: fullResponse } : msg
-              )
-            );
-          }
-
-          setMessages(prev =>
-            prev.map((msg, idx) =>
-              idx === prev.length - 1 ? { ...msg, isStreaming: false } : msg
-            )
-          );
-        } catch (error: any) {
-          console.error("Quick action error:", error);
-          const errorMessage = error?.message || "Sorry, I encountered an error. Please try again.";
-          setMessages(prev => [...prev, { role: 'model', text: `Error: ${errorMessage}`, timestamp: new Date() }]);
-        } finally {
-          setIsChatLoading(false);
-        }
-      })();
-    }, 100);
+    setTimeout(() => sendMessage(prompt), 100);
   };
 
   return (
@@ -375,6 +639,20 @@ const App: React.FC = () => {
         style={{ borderRadius: 'var(--radius-xl)' }}
       >
         <div className="flex items-center gap-4">
+          {!readOnly && (
+          <button
+            onClick={() => setIsSidebarOpen(true)}
+            className="neu-button p-2.5 transition-all duration-200"
+            style={{
+              color: 'var(--text-tertiary)',
+              borderRadius: 'var(--radius-md)',
+            }}
+            title="Decisions"
+          >
+            <PanelLeft size={18} />
+          </button>
+          )}
+
           {/* Logo */}
           <div className="relative group">
             <KompassLogo
@@ -390,40 +668,63 @@ const App: React.FC = () => {
               KOMPASS
             </h1>
             <span
-              className="text-[10px] tracking-widest uppercase hidden sm:block"
+              className="text-[10px] tracking-widest uppercase hidden sm:block truncate max-w-[16rem]"
               style={{ color: 'var(--text-tertiary)' }}
+              title={activeSession.name}
             >
-              Navigate Your Decisions
+              {activeSession.name}
             </span>
           </div>
         </div>
 
         <div className="flex items-center gap-3">
-          {isBackgroundUpdating && (
-            <div className="flex items-center gap-2 text-xs mr-2" style={{ color: 'var(--text-tertiary)' }}>
-              <span
-                className="w-2 h-2 rounded-full animate-pulse"
-                style={{ backgroundColor: 'var(--text-secondary)' }}
-              />
-              <span className="uppercase tracking-widest hidden md:inline">Syncing</span>
-            </div>
+          {saveFailed && !readOnly && (
+            <span
+              className="flex items-center gap-2 text-[10px] uppercase tracking-widest mr-2"
+              style={{ color: 'var(--text-secondary)' }}
+              title="Browser storage is full, so recent changes will be lost on reload. Export or delete older decisions to free space."
+            >
+              <AlertCircle size={12} /> Not saved
+            </span>
+          )}
+
+          {readOnly ? (
+            <span
+              className="flex items-center gap-2 text-[10px] uppercase tracking-widest mr-2"
+              style={{ color: 'var(--text-tertiary)' }}
+            >
+              <Lock size={12} /> Read-only
+            </span>
+          ) : (
+            <>
+              {/* Keyed so they re-read the settings an imported session brought along */}
+              <ProviderSelector key={`provider-${settingsVersion}`} disabled={isChatLoading || isVisLoading} />
+              <AnalysisModeSelector key={`mode-${settingsVersion}`} disabled={isVisLoading} />
+            </>
           )}
 
           <ThemeToggle />
 
           {messages.length > 2 && (
-            <button
-              onClick={handleExport}
-              className="neu-button p-2.5 transition-all duration-200"
-              style={{
-                color: 'var(--text-tertiary)',
-                borderRadius: 'var(--radius-md)',
-              }}
-              title="Export Decision Log"
-            >
-              <Download size={18} />
-            </button>
+            <ExportMenu onExport={handleExport} />
+          )}
+          {messages.length > 2 && !readOnly && (
+            <ShareButton session={activeSession} />
           )}
+          {readOnly ? (
+          <button
+            onClick={handleSaveCopy}
+            className="neu-button flex items-center gap-2 px-5 py-2.5 font-semibold text-sm tracking-wide transition-all duration-300 active:scale-95"
+            style={{
+              borderRadius: 'var(--radius-lg)',
+              color: 'var(--text-primary)',
+            }}
+            title="Add this decision to your own sessions"
+          >
+            <Save size={16} />
+            SAVE A COPY
+          </button>
+          ) : (
           <button
             onClick={handleAnalyze}
             disabled={isVisLoading || messages.length < 2}
@@ -447,9 +748,17 @@ const App: React.FC = () => {
             )}
             {isVisLoading ? 'ANALYZING...' : 'ANALYZE'}
           </button>
+          )}
         </div>
       </header>
 
+      <SessionSidebar
+        isOpen={isSidebarOpen && !readOnly}
+        onClose={() => setIsSidebarOpen(false)}
+        isBusy={isChatLoading || isVisLoading || !!retryingTab}
+        onSettingsImported={() => setSettingsVersion(v => v + 1)}
+      />
+
       {/* Main Content */}
       <main className="flex-1 overflow-hidden p-4 grid grid-cols-1 lg:grid-cols-12 gap-4">
 
@@ -461,10 +770,17 @@ const App: React.FC = () => {
             setInput={setInput}
             onSend={handleSend}
             isLoading={isChatLoading}
-            onOptionClick={handleQuickAction}
+            onOptionClick={readOnly ? undefined : handleQuickAction}
+            onStop={handleStop}
+            onEditMessage={readOnly ? undefined : handleEditMessage}
+            onRegenerate={readOnly ? undefined : handleRegenerate}
+            onSwitchBranch={handleSwitchBranch}
+            getBranchInfo={(id) => getSiblingInfo(chat, id)}
+            readOnly={readOnly}
           />
 
           {/* Quick Actions below Chat */}
+          {!readOnly && (
           <div className="flex justify-end">
             <QuickActions
               onAction={handleQuickAction}
@@ -472,6 +788,7 @@ const App: React.FC = () => {
               hasConversation={messages.length >= 2}
             />
           </div>
+          )}
         </div>
 
         {/* Right Col: Visualization */}
@@ -514,6 +831,9 @@ const App: React.FC = () => {
                       >
                         <Icon size={14} />
                         <span className="hidden sm:inline">{tab.label}</span>
+                        {tabErrors[tab.id] && (
+                          <AlertCircle size={12} style={{ color: 'var(--text-muted)' }} />
+                        )}
                       </button>
                     );
                   })}
@@ -541,22 +861,60 @@ const App: React.FC = () => {
               </div>
             )}
 
+            {isAnalysisStale && !isVisLoading && (
+              <div
+                className="absolute bottom-4 left-1/2 -translate-x-1/2 z-40 neu-panel flex items-center gap-3 px-4 py-2 text-xs"
+                style={{ borderRadius: 'var(--radius-full)', color: 'var(--text-secondary)' }}
+              >
+                <GitBranch size={14} />
+                <span>Analysis was built on a different branch</span>
+                {!readOnly && (
+                <button
+                  onClick={handleAnalyze}
+                  disabled={isChatLoading}
+                  className="neu-button px-3 py-1 text-[10px] font-semibold uppercase tracking-wider disabled:opacity-50"
+                  style={{ borderRadius: 'var(--radius-full)' }}
+                >
+                  Re-analyze
+                </button>
+                )}
+              </div>
+            )}
+
             <VisErrorBoundary>
               <div className="h-full w-full">
                 {activeTab === 'mindmap' && (
-                  <MindMap data={mindMapData} onNodeUpdate={handleNodeUpdate} />
+                  <MindMap
+                    data={displayedMindMap}
+                    // Provisional nodes are never stored, so the map is read-only until the generated one lands
+                    onChange={showProvisionalMap || readOnly ? undefined : handleMindMapChange}
+                    pendingEdits={activeSession.mindMapEdits?.length || 0}
+                    onCollapseChange={showProvisionalMap ? undefined : (mindMap) => updateSession(activeSession.id, s => ({ ...s, mindMap }))}
+                  />
                 )}
                 {activeTab === 'tree' && (
-                  <DecisionTree data={decisionTreeData} />
+                  <DecisionTree
+                    data={decisionTreeData}
+                    onChange={readOnly ? undefined : (decisionTree) => updateSession(activeSession.id, s => ({ ...s, decisionTree }))}
+                  />
                 )}
                 {activeTab === 'swot' && (
-                  <SWOTView data={swotData} />
+                  <SWOTView data={swotData} selectedOption={selectedOption} onSelectOption={setSelectedOption} />
                 )}
                 {activeTab === 'costbenefit' && (
-                  <CostBenefitView data={costBenefitData} />
+                  <CostBenefitView data={costBenefitData} selectedOption={selectedOption} onSelectOption={setSelectedOption} />
                 )}
                 {activeTab === 'compare' && (
-                  <ComparisonView data={comparisonData} />
+                  <ComparisonView
+                    data={comparisonData}
+                    onChange={readOnly ? undefined : (comparison) => updateSession(activeSession.id, s => ({ ...s, comparison }))}
+                  />
+                )}
+                {activeTab === 'sensitivity' && (
+                  <SensitivityView data={comparisonData} />
+                )}
+                {activeTab === 'simulation' && (
+                  <SimulationView tree={decisionTreeData} costBenefit={costBenefitData} />
                 )}
                 {activeTab === 'timeline' && (
                   <TimelineView data={timelineData} />
@@ -567,8 +925,17 @@ const App: React.FC = () => {
               </div>
             </VisErrorBoundary>
 
+            {tabErrors[activeTab] && !isVisLoading && !readOnly && (
+              <GenerationError
+                error={tabErrors[activeTab]!}
+                label={tabConfig.find(t => t.id === activeTab)!.label}
+                onRetry={() => handleRetryTab(activeTab)}
+                isRetrying={retryingTab === activeTab}
+              />
+            )}
+
             {/* Empty State Overlay - Neumorphic */}
-            {(!mindMapData && !projectionData.length && !comparisonData && !decisionTreeData && !swotData && !costBenefitData && !timelineData && !isVisLoading && !isBackgroundUpdating) && (
+            {(!displayedMindMap && !projectionData.length && !comparisonData && !decisionTreeData && !swotData && !costBenefitData && !timelineData && !isVisLoading) && (
               <div
                 className="absolute inset-0 flex flex-col items-center justify-center z-10 p-8 text-center pointer-events-none"
                 style={{ background: 'var(--bg-base)' }}
@@ -627,6 +994,13 @@ const App: React.FC = () => {
                 >
                   ANALYZING...
                 </p>
+                <button
+                  onClick={handleCancelAnalysis}
+                  className="neu-button mt-6 flex items-center gap-2 px-4 py-2 text-xs font-semibold uppercase tracking-wider"
+                  style={{ borderRadius: 'var(--radius-full)', color: 'var(--text-secondary)' }}
+                >
+                  <X size={14} /> Cancel
+                </button>
               </div>
             )}
           </div>
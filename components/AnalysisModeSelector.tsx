@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import { ChevronDown, Layers } from 'lucide-react';
+import { AnalysisMode, getAnalysisMode, setAnalysisMode } from '../services/aiService';
+
+interface AnalysisModeSelectorProps {
+  className?: string;
+  disabled?: boolean;
+}
+
+const MODES: { id: AnalysisMode; label: string; title: string }[] = [
+  { id: 'unified', label: 'Unified', title: 'One call builds a shared model; all tabs agree on options' },
+  { id: 'detailed', label: 'Per view', title: 'One call per tab; more detail, about seven times the cost' },
+];
+
+const AnalysisModeSelector: React.FC<AnalysisModeSelectorProps> = ({ className = '', disabled }) => {
+  const [mode, setMode] = useState<AnalysisMode>(getAnalysisMode);
+
+  const handleChange = (next: AnalysisMode) => {
+    setAnalysisMode(next);
+    setMode(next);
+  };
+
+  return (
+    <div className={`relative hidden md:block ${className}`}>
+      <Layers
+        size={14}
+        className="absolute left-3 top-1/2 -translate-y-1/2 pointer-events-none"
+        style={{ color: 'var(--text-tertiary)' }}
+      />
+      <select
+        value={mode}
+        onChange={(e) => handleChange(e.target.value as AnalysisMode)}
+        disabled={disabled}
+        className="neu-input appearance-none text-xs pl-8 pr-8 py-2 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+        style={{ borderRadius: 'var(--radius-md)' }}
+        title={MODES.find(m => m.id === mode)?.title}
+      >
+        {MODES.map((m) => (
+          <option key={m.id} value={m.id}>{m.label}</option>
+        ))}
+      </select>
+      <ChevronDown
+        size={14}
+        className="absolute right-2.5 top-1/2 -translate-y-1/2 pointer-events-none"
+        style={{ color: 'var(--text-tertiary)' }}
+      />
+    </div>
+  );
+};
+
+export default AnalysisModeSelector;
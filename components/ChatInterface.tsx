@@ -1,16 +1,25 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import ReactMarkdown from 'react-markdown';
-import { Message } from '../types';
-import { Send, Bot, User, Loader2, Sparkles } from 'lucide-react';
+import { ChatNode } from '../types';
+import { Send, Bot, User, Loader2, Sparkles, Edit2, RefreshCw, ChevronLeft, ChevronRight, Square, Lock } from 'lucide-react';
 import { useTheme } from '../contexts/ThemeContext';
 
 interface ChatInterfaceProps {
-  messages: Message[];
+  messages: ChatNode[];
   input: string;
   setInput: (val: string) => void;
   onSend: () => void;
   isLoading: boolean;
   onOptionClick?: (option: string) => void;
+  // Aborts the reply that is streaming; text received so far is kept
+  onStop?: () => void;
+  // Branching: editing a question or regenerating a reply keeps the old version as a sibling
+  onEditMessage?: (id: string, text: string) => void;
+  onRegenerate?: (id: string) => void;
+  onSwitchBranch?: (id: string, direction: -1 | 1) => void;
+  getBranchInfo?: (id: string) => { index: number; count: number };
+  // Shared decisions: the conversation can be read and its branches browsed, but not continued
+  readOnly?: boolean;
 }
 
 // Parse message text to extract [OPTIONS: A | B | C] blocks
@@ -77,16 +86,53 @@ const ChoiceChips: React.FC<ChoiceChipsProps> = ({ choices, onSelect, disabled }
   </div>
 );
 
+// Small icon button shown under a message on hover
+const MessageAction: React.FC<{
+  onClick: () => void;
+  title: string;
+  disabled?: boolean;
+  children: React.ReactNode;
+}> = ({ onClick, title, disabled, children }) => (
+  <button
+    onClick={onClick}
+    disabled={disabled}
+    title={title}
+    className="p-1 transition-all duration-200 hover:scale-110 disabled:opacity-30 disabled:cursor-not-allowed"
+    style={{ color: 'var(--text-tertiary)' }}
+  >
+    {children}
+  </button>
+);
+
 const ChatInterface: React.FC<ChatInterfaceProps> = ({
   messages,
   input,
   setInput,
   onSend,
   isLoading,
-  onOptionClick
+  onOptionClick,
+  onStop,
+  onEditMessage,
+  onRegenerate,
+  onSwitchBranch,
+  getBranchInfo,
+  readOnly
 }) => {
   const { isDark } = useTheme();
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+
+  const startEdit = (msg: ChatNode) => {
+    setEditingId(msg.id);
+    setEditText(msg.text);
+  };
+
+  const submitEdit = () => {
+    if (!editingId || !editText.trim()) return;
+    onEditMessage?.(editingId, editText.trim());
+    setEditingId(null);
+  };
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -217,12 +263,50 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
           </div>
         )}
 
-        {messages.map((msg, index) => (
+        {messages.map((msg, index) => {
+          const branch = getBranchInfo?.(msg.id);
+          const isEditing = editingId === msg.id;
+          return (
           <div
-            key={index}
-            className={`flex w-full animate-slide-up ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
+            key={msg.id}
+            className={`group flex flex-col w-full animate-slide-up ${msg.role === 'user' ? 'items-end' : 'items-start'}`}
             style={{ animationDelay: `${index * 50}ms` }}
           >
+            {isEditing ? (
+              <div className="w-full max-w-[85%] space-y-2">
+                <textarea
+                  value={editText}
+                  onChange={(e) => setEditText(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && !e.shiftKey) {
+                      e.preventDefault();
+                      submitEdit();
+                    }
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="neu-input w-full resize-none h-20 text-sm"
+                  style={{ borderRadius: 'var(--radius-lg)' }}
+                  autoFocus
+                />
+                <div className="flex justify-end gap-2">
+                  <button
+                    onClick={() => setEditingId(null)}
+                    className="px-3 py-1.5 text-xs"
+                    style={{ color: 'var(--text-tertiary)' }}
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={submitEdit}
+                    disabled={!editText.trim() || isLoading}
+                    className="neu-button px-3 py-1.5 text-xs font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                    style={{ borderRadius: 'var(--radius-md)' }}
+                  >
+                    Save & Submit
+                  </button>
+                </div>
+              </div>
+            ) : (
             <div
               className={`max-w-[85%] px-4 py-3 text-sm leading-relaxed transition-all duration-200 ${msg.role === 'user'
                 ? 'rounded-2xl rounded-tr-md'
@@ -247,7 +331,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                         key={segIdx}
                         choices={segment.choices}
                         onSelect={(choice) => onOptionClick?.(choice)}
-                        disabled={isLoading || msg.isStreaming}
+                        disabled={isLoading || msg.isStreaming || !onOptionClick}
                       />
                     ) : (
                       <ReactMarkdown
@@ -297,8 +381,48 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                 <span className="font-medium">{msg.text}</span>
               )}
             </div>
+            )}
+
+            {/* Branch navigation & actions */}
+            {!isEditing && !msg.isStreaming && (
+              <div
+                className={`flex items-center gap-1 mt-1 px-1 text-[10px] ${branch && branch.count > 1 ? '' : 'opacity-0 group-hover:opacity-100'} transition-opacity duration-200`}
+                style={{ color: 'var(--text-tertiary)' }}
+              >
+                {branch && branch.count > 1 && (
+                  <>
+                    <MessageAction
+                      onClick={() => onSwitchBranch?.(msg.id, -1)}
+                      disabled={isLoading || branch.index === 0}
+                      title="Previous version"
+                    >
+                      <ChevronLeft size={12} />
+                    </MessageAction>
+                    <span className="font-mono">{branch.index + 1}/{branch.count}</span>
+                    <MessageAction
+                      onClick={() => onSwitchBranch?.(msg.id, 1)}
+                      disabled={isLoading || branch.index === branch.count - 1}
+                      title="Next version"
+                    >
+                      <ChevronRight size={12} />
+                    </MessageAction>
+                  </>
+                )}
+                {msg.role === 'user' && onEditMessage && (
+                  <MessageAction onClick={() => startEdit(msg)} disabled={isLoading} title="Edit">
+                    <Edit2 size={12} />
+                  </MessageAction>
+                )}
+                {msg.role === 'model' && onRegenerate && (
+                  <MessageAction onClick={() => onRegenerate(msg.id)} disabled={isLoading} title="Regenerate">
+                    <RefreshCw size={12} />
+                  </MessageAction>
+                )}
+              </div>
+            )}
           </div>
-        ))}
+          );
+        })}
 
         {
           isLoading && (
@@ -345,6 +469,15 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
           borderRadius: '0 0 var(--radius-xl) var(--radius-xl)',
         }}
       >
+        {readOnly ? (
+        <p
+          className="flex items-center justify-center gap-2 py-3 text-xs"
+          style={{ color: 'var(--text-tertiary)' }}
+        >
+          <Lock size={12} /> Shared decision · read-only
+        </p>
+        ) : (
+        <>
         <div className="relative">
           <textarea
             value={input}
@@ -354,6 +487,21 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
             className="neu-input w-full pr-14 resize-none h-14 scrollbar-hide text-sm"
             style={{ borderRadius: 'var(--radius-lg)' }}
           />
+          {isLoading && onStop ? (
+          <button
+            onClick={onStop}
+            className="absolute right-2 top-2 p-2.5 transition-all duration-200 active:scale-95"
+            style={{
+              background: 'var(--bg-surface)',
+              borderRadius: 'var(--radius-md)',
+              boxShadow: 'var(--shadow-neu-button)',
+              color: 'var(--text-primary)',
+            }}
+            title="Stop generating"
+          >
+            <Square size={16} strokeWidth={2.5} fill="currentColor" />
+          </button>
+          ) : (
           <button
             onClick={onSend}
             disabled={!input.trim() || isLoading}
@@ -371,6 +519,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
           >
             <Send size={16} strokeWidth={2.5} />
           </button>
+          )}
         </div>
 
         {/* Helper text */}
@@ -380,6 +529,8 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
         >
           Press Enter to send • Shift+Enter for new line
         </p>
+        </>
+        )}
       </div >
     </div >
   );
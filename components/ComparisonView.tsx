@@ -1,12 +1,67 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { ComparisonData } from '../types';
-import { CheckCircle2, AlertTriangle } from 'lucide-react';
+import { CheckCircle2, AlertTriangle, Plus, X, RotateCcw } from 'lucide-react';
+import {
+  getWeight,
+  weightedScore,
+  rankRows,
+  recommendedRowIndex,
+  setWeight,
+  setScore,
+  resetScore,
+  addCriterion,
+  removeCriterion,
+  addOption,
+  removeOption
+} from '../utils/decisionMatrix';
+import { analyzeSensitivity } from '../utils/sensitivity';
 
 interface ComparisonViewProps {
   data: ComparisonData | null;
+  // Weights, score overrides and added/removed rows & columns; omit for a read-only matrix
+  onChange?: (data: ComparisonData) => void;
 }
 
-const ComparisonView: React.FC<ComparisonViewProps> = ({ data }) => {
+// Inline "+ Add" control that turns into a text field
+const AddInline: React.FC<{ label: string; onAdd: (name: string) => void }> = ({ label, onAdd }) => {
+  const [isAdding, setIsAdding] = useState(false);
+  const [name, setName] = useState('');
+
+  const submit = () => {
+    if (name.trim()) onAdd(name);
+    setName('');
+    setIsAdding(false);
+  };
+
+  if (!isAdding) {
+    return (
+      <button
+        onClick={() => setIsAdding(true)}
+        className="flex items-center gap-1 text-[10px] uppercase tracking-wider text-neutral-500 hover:text-white transition-colors"
+      >
+        <Plus size={12} /> {label}
+      </button>
+    );
+  }
+
+  return (
+    <input
+      type="text"
+      value={name}
+      onChange={(e) => setName(e.target.value)}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') submit();
+        if (e.key === 'Escape') setIsAdding(false);
+      }}
+      onBlur={submit}
+      placeholder="Name..."
+      className="w-28 bg-neutral-900 border border-neutral-700 rounded px-2 py-1 text-xs text-white outline-none focus:border-neutral-500"
+      autoFocus
+    />
+  );
+};
+
+const ComparisonView: React.FC<ComparisonViewProps> = ({ data, onChange }) => {
   if (!data) {
     return (
       <div className="flex items-center justify-center h-full text-neutral-500">
@@ -15,10 +70,12 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({ data }) => {
     );
   }
 
-  // Calculate total scores for simple sorting/display logic
-  const getScoreSum = (scores: {score: number}[]) => {
-    return scores.reduce((acc, val) => acc + (Number(val.score) || 0), 0);
-  };
+  const isEditable = Boolean(onChange);
+  const ranks = rankRows(data);
+  const recommendedIndex = recommendedRowIndex(data);
+  const sensitivity = analyzeSensitivity(data);
+
+  const parseScore = (value: string) => Math.max(0, Math.min(10, Number(value) || 0));
 
   return (
     <div className="flex flex-col h-full w-full bg-black p-6 overflow-hidden">
@@ -27,8 +84,9 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({ data }) => {
                 <h3 className="text-white font-bold text-sm uppercase tracking-widest">Decision Matrix</h3>
                 <p className="text-neutral-500 text-xs mt-1">Weighted Trade-off Analysis</p>
             </div>
-            <div className="text-[10px] text-neutral-600 font-mono hidden md:block">
-                SCORES: 1 (POOR) - 10 (EXCELLENT)
+            <div className="text-[10px] text-neutral-600 font-mono hidden md:block text-right">
+                SCORES: 1 (POOR) - 10 (EXCELLENT)<br />
+                WEIGHT: IMPORTANCE 1 - 10
             </div>
         </div>
 
@@ -39,23 +97,56 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({ data }) => {
                         <th className="p-4 border-b border-neutral-800 text-xs font-bold text-neutral-400 uppercase tracking-wider w-1/4">
                             Option
                         </th>
-                        {data.criteria.map((c, i) => (
-                            <th key={i} className="p-4 border-b border-neutral-800 text-xs font-bold text-white uppercase tracking-wider text-center">
-                                {c}
+                        {data.criteria.map((c) => {
+                            const weight = getWeight(data, c);
+                            return (
+                                <th key={c} className="group/col p-4 border-b border-neutral-800 text-xs font-bold text-white uppercase tracking-wider text-center align-top">
+                                    <div className="flex items-center justify-center gap-1">
+                                        <span>{c}</span>
+                                        {isEditable && data.criteria.length > 1 && (
+                                            <button
+                                                onClick={() => onChange!(removeCriterion(data, c))}
+                                                className="opacity-0 group-hover/col:opacity-100 text-neutral-500 hover:text-white transition-opacity"
+                                                title={`Remove "${c}"`}
+                                            >
+                                                <X size={12} />
+                                            </button>
+                                        )}
+                                    </div>
+                                    <div className="mt-2 flex items-center justify-center gap-2 font-mono normal-case font-normal text-[10px] text-neutral-500">
+                                        {isEditable ? (
+                                            <input
+                                                type="range"
+                                                min={1}
+                                                max={10}
+                                                value={weight}
+                                                onChange={(e) => onChange!(setWeight(data, c, Number(e.target.value)))}
+                                                className="w-16 accent-white cursor-pointer"
+                                                title={`Importance of ${c}`}
+                                            />
+                                        ) : null}
+                                        <span>×{weight}</span>
+                                    </div>
+                                </th>
+                            );
+                        })}
+                        {isEditable && (
+                            <th className="p-4 border-b border-neutral-800 text-center align-top">
+                                <AddInline label="Criterion" onAdd={(name) => onChange!(addCriterion(data, name))} />
                             </th>
-                        ))}
-                        <th className="p-4 border-b border-neutral-800 text-xs font-bold text-neutral-400 uppercase tracking-wider text-center w-24">
-                            Total
+                        )}
+                        <th className="p-4 border-b border-neutral-800 text-xs font-bold text-neutral-400 uppercase tracking-wider text-center w-24 align-top">
+                            Weighted
                         </th>
                     </tr>
                 </thead>
                 <tbody className="divide-y divide-neutral-800 bg-black">
                     {data.rows.map((row, idx) => {
-                        const isRec = row.isRecommended;
-                        const totalScore = getScoreSum(row.scores);
-                        
+                        const isRec = idx === recommendedIndex;
+                        const totalScore = weightedScore(data, row);
+
                         return (
-                            <tr key={idx} className={`group transition-colors ${isRec ? 'bg-neutral-900/40' : 'hover:bg-neutral-900/20'}`}>
+                            <tr key={`${row.optionName}-${idx}`} className={`group transition-colors ${isRec ? 'bg-neutral-900/40' : 'hover:bg-neutral-900/20'}`}>
                                 <td className="p-4 align-top">
                                     <div className="flex flex-col gap-1">
                                         <div className="flex items-center gap-2">
@@ -63,27 +154,73 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({ data }) => {
                                             <span className={`font-bold text-sm ${isRec ? 'text-white underline decoration-wavy decoration-neutral-600' : 'text-neutral-300'}`}>
                                                 {row.optionName}
                                             </span>
+                                            {isRec && sensitivity && (
+                                                <span
+                                                    className={`text-[9px] font-mono font-bold uppercase tracking-wider px-1.5 py-0.5 rounded border ${
+                                                        sensitivity.robustness === 'robust'
+                                                        ? 'text-white border-neutral-400'
+                                                        : 'text-neutral-500 border-neutral-700 border-dashed'
+                                                    }`}
+                                                    title={sensitivity.conditions[0] ?? 'No single change within range overturns this option'}
+                                                >
+                                                    {sensitivity.robustness}
+                                                </span>
+                                            )}
+                                            {isEditable && data.rows.length > 1 && (
+                                                <button
+                                                    onClick={() => onChange!(removeOption(data, idx))}
+                                                    className="opacity-0 group-hover:opacity-100 text-neutral-600 hover:text-white transition-opacity"
+                                                    title={`Remove "${row.optionName}"`}
+                                                >
+                                                    <X size={12} />
+                                                </button>
+                                            )}
                                         </div>
                                         <p className="text-[10px] text-neutral-500 font-light leading-relaxed mt-1">
                                             {row.summary}
                                         </p>
                                     </div>
                                 </td>
-                                {data.criteria.map((c, cIdx) => {
+                                {data.criteria.map((c) => {
                                     // Find score matching this criteria
                                     const scoreItem = row.scores.find(s => s.criteria === c);
                                     const score = scoreItem ? scoreItem.score : 0;
-                                    
+                                    const isOverridden = scoreItem?.aiScore !== undefined;
+
                                     // Visual bar for score
-                                    const percentage = score * 10; 
-                                    
+                                    const percentage = score * 10;
+
                                     return (
-                                        <td key={cIdx} className="p-4 align-middle">
+                                        <td key={c} className="p-4 align-middle">
                                             <div className="flex flex-col items-center gap-1">
-                                                <span className="text-xs font-mono font-bold text-neutral-300">{score}</span>
+                                                <div className="flex items-center gap-1">
+                                                    {isEditable ? (
+                                                        <input
+                                                            type="number"
+                                                            min={0}
+                                                            max={10}
+                                                            step={1}
+                                                            value={score}
+                                                            onChange={(e) => onChange!(setScore(data, idx, c, parseScore(e.target.value)))}
+                                                            className={`w-10 bg-transparent text-center text-xs font-mono font-bold outline-none rounded border ${isOverridden ? 'border-neutral-500 text-white' : 'border-transparent text-neutral-300'} hover:border-neutral-700 focus:border-neutral-500`}
+                                                            title={isOverridden ? `Edited (AI score: ${scoreItem!.aiScore})` : 'Click to override'}
+                                                        />
+                                                    ) : (
+                                                        <span className="text-xs font-mono font-bold text-neutral-300">{score}</span>
+                                                    )}
+                                                    {isEditable && isOverridden && (
+                                                        <button
+                                                            onClick={() => onChange!(resetScore(data, idx, c))}
+                                                            className="text-neutral-600 hover:text-white"
+                                                            title={`Restore AI score (${scoreItem!.aiScore})`}
+                                                        >
+                                                            <RotateCcw size={10} />
+                                                        </button>
+                                                    )}
+                                                </div>
                                                 <div className="w-full h-1 bg-neutral-800 rounded-full overflow-hidden w-12">
-                                                    <div 
-                                                        className="h-full bg-white transition-all duration-500" 
+                                                    <div
+                                                        className="h-full bg-white transition-all duration-500"
                                                         style={{ width: `${percentage}%`, opacity: score > 7 ? 1 : 0.4 }}
                                                     ></div>
                                                 </div>
@@ -91,32 +228,43 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({ data }) => {
                                         </td>
                                     );
                                 })}
+                                {isEditable && <td />}
                                 <td className="p-4 align-middle text-center">
                                     <div className={`text-sm font-bold font-mono py-1 px-2 rounded border ${
-                                        isRec 
-                                        ? 'bg-white text-black border-white' 
+                                        isRec
+                                        ? 'bg-white text-black border-white'
                                         : 'bg-black text-neutral-500 border-neutral-800'
                                     }`}>
-                                        {totalScore}
+                                        {totalScore.toFixed(1)}
                                     </div>
+                                    <div className="text-[10px] font-mono text-neutral-600 mt-1">#{ranks[idx]}</div>
                                 </td>
                             </tr>
                         );
                     })}
+                    {isEditable && (
+                        <tr>
+                            <td className="p-4" colSpan={data.criteria.length + 3}>
+                                <AddInline label="Option" onAdd={(name) => onChange!(addOption(data, name))} />
+                            </td>
+                        </tr>
+                    )}
                 </tbody>
             </table>
         </div>
-        
+
         {/* Helper Note */}
         <div className="mt-4 flex items-start gap-2 text-[10px] text-neutral-600 border-t border-neutral-900 pt-4">
             <AlertTriangle size={12} className="shrink-0 mt-0.5" />
             <p>
                 Scores are generated based on context. High scores indicate better alignment with your stated goals.
-                Use this matrix to identify trade-offs (e.g., High Impact but High Risk).
+                {isEditable
+                    ? ' Adjust weights or override any score you disagree with; the ranking and recommendation update instantly.'
+                    : ' Use this matrix to identify trade-offs (e.g., High Impact but High Risk).'}
             </p>
         </div>
     </div>
   );
 };
 
-export default ComparisonView;
\ No newline at end of file
+export default ComparisonView;
@@ -4,6 +4,9 @@ import { Scale, ChevronDown, TrendingUp, TrendingDown, DollarSign, Clock, Heart,
 
 interface CostBenefitViewProps {
   data: CostBenefitAnalysis | null;
+  // Option on display; when the caller passes onSelectOption it owns the choice (e.g. to keep it in the URL)
+  selectedOption?: string | null;
+  onSelectOption?: (optionName: string) => void;
 }
 
 const categoryConfig: Record<CostBenefitCategory, { icon: React.ElementType; color: string; label: string }> = {
@@ -107,8 +110,10 @@ const BalanceScale: React.FC<{ costs: number; benefits: number }> = ({ costs, be
   );
 };
 
-const CostBenefitView: React.FC<CostBenefitViewProps> = ({ data }) => {
-  const [selectedOption, setSelectedOption] = useState<string | null>(null);
+const CostBenefitView: React.FC<CostBenefitViewProps> = ({ data, selectedOption: controlledOption, onSelectOption }) => {
+  const [localOption, setLocalOption] = useState<string | null>(null);
+  const selectedOption = onSelectOption ? controlledOption ?? null : localOption;
+  const setSelectedOption = onSelectOption || setLocalOption;
 
   if (!data || !data.options || data.options.length === 0) {
     return (
@@ -122,9 +127,8 @@ const CostBenefitView: React.FC<CostBenefitViewProps> = ({ data }) => {
     );
   }
 
-  const currentOption = selectedOption
-    ? data.options.find(o => o.optionName === selectedOption)
-    : data.options[0];
+  // An option that is no longer in the analysis (e.g. from an old link) falls back to the first one
+  const currentOption = data.options.find(o => o.optionName === selectedOption) || data.options[0];
 
   if (!currentOption) return null;
 
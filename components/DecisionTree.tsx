@@ -1,10 +1,16 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import * as d3 from 'd3';
 import { DecisionTreeData, DecisionTreeNode } from '../types';
-import { GitBranch, ChevronRight, Award, AlertTriangle, CheckCircle, HelpCircle, Move } from 'lucide-react';
+import { GitBranch, ChevronRight, Award, AlertTriangle, CheckCircle, HelpCircle, Move, Plus, Trash2 } from 'lucide-react';
+import { rollback, formatEV } from '../utils/decisionTreeMath';
+import { findNode, findParent, updateNode, addBranch, removeSubtree, moveBranch, NodePatch } from '../utils/decisionTreeEdit';
+import { ExportLegendItem } from '../utils/svgExport';
+import ViewExportButton from './ViewExportButton';
 
 interface DecisionTreeProps {
   data: DecisionTreeData | null;
+  // Receives the edited tree; omit for a read-only view
+  onChange?: (data: DecisionTreeData) => void;
 }
 
 const nodeTypeConfig = {
@@ -19,15 +25,200 @@ const sentimentColors = {
   neutral: '#6b7280',
 };
 
+// Legend drawn into exported images (the on-screen legend is HTML)
+const exportLegend: ExportLegendItem[] = [
+  ...Object.entries(nodeTypeConfig).map(([type, config]) => ({ label: type.charAt(0).toUpperCase() + type.slice(1), color: config.color })),
+  { label: 'Positive', color: sentimentColors.positive },
+  { label: 'Negative', color: sentimentColors.negative },
+  { label: 'Optimal path', color: '#e5e5e5', shape: 'line' },
+];
+
+const inputClass = 'bg-neutral-900 border border-neutral-700 rounded px-2 py-1 text-xs text-white outline-none focus:border-neutral-500';
+
+const parseOptional = (value: string, min: number, max: number): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? Math.max(min, Math.min(max, n)) : undefined;
+};
+
+interface NodeEditorProps {
+  node: DecisionTreeNode;
+  isRoot: boolean;
+  hasProbability: boolean; // Child of a chance node
+  onPatch: (patch: NodePatch) => void;
+  onAddBranch: () => void;
+  onDelete: () => void;
+}
+
+// Edits one node; text and number fields commit on Enter or blur
+const NodeEditor: React.FC<NodeEditorProps> = ({ node, isRoot, hasProbability, onPatch, onAddBranch, onDelete }) => {
+  const [label, setLabel] = useState(node.label);
+  const [probability, setProbability] = useState(node.probability?.toString() ?? '');
+  const [value, setValue] = useState(node.value?.toString() ?? '');
+  const [rangeMin, setRangeMin] = useState(node.valueRange?.min.toString() ?? '');
+  const [rangeMax, setRangeMax] = useState(node.valueRange?.max.toString() ?? '');
+  const isLeaf = !node.children?.length;
+
+  const commit = () => {
+    const patch: NodePatch = {};
+    if (label.trim() && label.trim() !== node.label) patch.label = label.trim();
+    if (hasProbability) {
+      const next = parseOptional(probability, 0, 100);
+      if (next !== node.probability) patch.probability = next;
+    }
+    if (isLeaf) {
+      const next = parseOptional(value, 0, 10);
+      if (next !== node.value) patch.value = next;
+      // Uncertainty for the simulation: both bounds set, around the point value
+      const low = parseOptional(rangeMin, 0, 10);
+      const high = parseOptional(rangeMax, 0, 10);
+      const likely = next ?? node.value;
+      const range = low !== undefined && high !== undefined && likely !== undefined
+        ? { min: Math.min(low, high, likely), likely, max: Math.max(low, high, likely) }
+        : undefined;
+      if (JSON.stringify(range) !== JSON.stringify(node.valueRange)) patch.valueRange = range;
+    }
+    if (Object.keys(patch).length) onPatch(patch);
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') commit();
+  };
+
+  return (
+    <div className="mt-3 pt-3 border-t border-neutral-800 space-y-2">
+      <input
+        type="text"
+        value={label}
+        onChange={(e) => setLabel(e.target.value)}
+        onBlur={commit}
+        onKeyDown={onKeyDown}
+        className={`${inputClass} w-full`}
+        placeholder="Label"
+      />
+      <div className="flex flex-wrap items-center gap-2 text-[10px] text-neutral-500 uppercase tracking-wider">
+        {hasProbability && (
+          <label className="flex items-center gap-1">
+            Prob %
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={probability}
+              onChange={(e) => setProbability(e.target.value)}
+              onBlur={commit}
+              onKeyDown={onKeyDown}
+              className={`${inputClass} w-16 font-mono`}
+            />
+          </label>
+        )}
+        {isLeaf && (
+          <>
+            <label className="flex items-center gap-1">
+              Value
+              <input
+                type="number"
+                min={0}
+                max={10}
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                onBlur={commit}
+                onKeyDown={onKeyDown}
+                className={`${inputClass} w-14 font-mono`}
+              />
+            </label>
+            <label className="flex items-center gap-1" title="Range for the Monte Carlo simulation">
+              Range
+              <input
+                type="number"
+                min={0}
+                max={10}
+                value={rangeMin}
+                onChange={(e) => setRangeMin(e.target.value)}
+                onBlur={commit}
+                onKeyDown={onKeyDown}
+                className={`${inputClass} w-12 font-mono`}
+                placeholder="min"
+              />
+              –
+              <input
+                type="number"
+                min={0}
+                max={10}
+                value={rangeMax}
+                onChange={(e) => setRangeMax(e.target.value)}
+                onBlur={commit}
+                onKeyDown={onKeyDown}
+                className={`${inputClass} w-12 font-mono`}
+                placeholder="max"
+              />
+            </label>
+            <select
+              value={node.sentiment || 'neutral'}
+              onChange={(e) => onPatch({ sentiment: e.target.value as DecisionTreeNode['sentiment'] })}
+              className={inputClass}
+            >
+              <option value="positive">Positive</option>
+              <option value="neutral">Neutral</option>
+              <option value="negative">Negative</option>
+            </select>
+          </>
+        )}
+      </div>
+      <div className="flex gap-2">
+        <button
+          onClick={onAddBranch}
+          className="flex items-center gap-1 px-2 py-1 rounded border border-neutral-700 text-[10px] uppercase tracking-wider text-neutral-400 hover:text-white hover:border-neutral-500"
+        >
+          <Plus size={12} /> {node.type === 'decision' ? 'Add option' : 'Add outcome'}
+        </button>
+        {!isRoot && (
+          <button
+            onClick={onDelete}
+            className="flex items-center gap-1 px-2 py-1 rounded border border-neutral-800 text-[10px] uppercase tracking-wider text-neutral-500 hover:text-rose-400 hover:border-rose-500/50"
+          >
+            <Trash2 size={12} /> Delete{node.children?.length ? ' branch' : ''}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const findLabel = (node: DecisionTreeNode, id: string): string | null => {
+  if (node.id === id) return node.label;
+  for (const child of node.children || []) {
+    const label = findLabel(child, id);
+    if (label) return label;
+  }
+  return null;
+};
+
 interface D3Node extends d3.HierarchyPointNode<DecisionTreeNode> {
   _children?: D3Node[];
 }
 
-const DecisionTree: React.FC<DecisionTreeProps> = ({ data }) => {
+const DecisionTree: React.FC<DecisionTreeProps> = ({ data, onChange }) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const wrapperRef = useRef<HTMLDivElement>(null);
   const [dimensions, setDimensions] = useState({ width: 800, height: 600 });
-  const [selectedNode, setSelectedNode] = useState<DecisionTreeNode | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Keeps pan & zoom across redraws after edits
+  const transformRef = useRef<d3.ZoomTransform>(d3.zoomIdentity);
+  // Latest callback without redrawing the tree whenever the parent re-renders
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  const isEditable = Boolean(onChange);
+
+  const selectedNode = data?.root && selectedId ? findNode(data.root, selectedId) : null;
+  const selectedParent = data?.root && selectedId ? findParent(data.root, selectedId) : null;
+
+  // Expected values and the optimal strategy are computed, not taken from the model
+  const evaluation = useMemo(() => (data?.root ? rollback(data) : null), [data]);
+  const recommendation = evaluation?.recommendation ?? null;
+  const modelRecommendation = data?.recommendation && data.recommendation !== recommendation
+    ? findLabel(data.root, data.recommendation)
+    : null;
 
   // Handle resize
   useEffect(() => {
@@ -46,7 +237,8 @@ const DecisionTree: React.FC<DecisionTreeProps> = ({ data }) => {
 
   // Main D3 Effect
   useEffect(() => {
-    if (!svgRef.current || !data?.root) return;
+    if (!svgRef.current || !data?.root || !evaluation) return;
+    const isOptimal = (id: string) => evaluation.nodes[id]?.isOptimal ?? false;
 
     const svg = d3.select(svgRef.current);
     const { width, height } = dimensions;
@@ -75,9 +267,11 @@ const DecisionTree: React.FC<DecisionTreeProps> = ({ data }) => {
     const zoom = d3.zoom<SVGSVGElement, unknown>()
       .scaleExtent([0.3, 3])
       .on('zoom', (event) => {
+        transformRef.current = event.transform;
         g.attr('transform', `translate(${margin.left + event.transform.x},${margin.top + event.transform.y}) scale(${event.transform.k})`);
       });
     svg.call(zoom);
+    svg.call(zoom.transform, transformRef.current);
 
     // Draw links
     const linkGenerator = d3.linkHorizontal<any, any>()
@@ -98,26 +292,29 @@ const DecisionTree: React.FC<DecisionTreeProps> = ({ data }) => {
         }
         return '#4b5563';
       })
-      .attr('stroke-width', 2)
+      .attr('stroke-width', d => isOptimal(d.target.data.id) ? 3 : 1.5)
       .attr('opacity', 0)
       .transition()
       .duration(800)
       .delay((_, i) => i * 100)
-      .attr('opacity', 0.6);
+      .attr('opacity', d => isOptimal(d.target.data.id) ? 0.9 : 0.25);
 
-    // Draw probability labels on links
+    // Draw probability labels on links (as used in the rollback; * marks adjusted probabilities)
     g.selectAll('.probability')
-      .data(root.links().filter(d => d.target.data.probability !== undefined))
+      .data(root.links().filter(d => evaluation.nodes[d.target.data.id]?.probability !== undefined))
       .enter()
       .append('text')
       .attr('class', 'probability')
       .attr('x', d => (d.source.y + d.target.y) / 2)
       .attr('y', d => (d.source.x + d.target.x) / 2 - 8)
       .attr('text-anchor', 'middle')
-      .attr('fill', '#9ca3af')
+      .attr('fill', d => evaluation.nodes[d.source.data.id]?.probabilityIssue ? '#f59e0b' : '#9ca3af')
       .attr('font-size', '11px')
       .attr('font-weight', 'bold')
-      .text(d => `${d.target.data.probability}%`)
+      .text(d => {
+        const probability = evaluation.nodes[d.target.data.id].probability!;
+        return `${Math.round(probability * 10) / 10}%${evaluation.nodes[d.source.data.id]?.probabilityIssue ? '*' : ''}`;
+      })
       .attr('opacity', 0)
       .transition()
       .duration(600)
@@ -134,9 +331,36 @@ const DecisionTree: React.FC<DecisionTreeProps> = ({ data }) => {
       .style('cursor', 'pointer')
       .on('click', (event, d) => {
         event.stopPropagation();
-        setSelectedNode(d.data);
+        setSelectedId(d.data.id);
       });
 
+    // Drag vertically to reorder a node among its siblings
+    if (isEditable) {
+      let offset = 0;
+      nodes.filter(d => Boolean(d.parent))
+        .style('cursor', 'grab')
+        .call(d3.drag<SVGGElement, d3.HierarchyNode<DecisionTreeNode>>()
+          .on('start', () => { offset = 0; })
+          .on('drag', function (event, d) {
+            offset += event.dy;
+            d3.select(this).attr('transform', `translate(${d.y},${d.x + offset})`);
+          })
+          .on('end', function (_, d) {
+            if (Math.abs(offset) < 5) {
+              d3.select(this).attr('transform', `translate(${d.y},${d.x})`);
+              return;
+            }
+            const target = d.x + offset;
+            const index = d.parent!.children!.filter(s => s !== d && s.x < target).length;
+            const current = d.parent!.children!.indexOf(d);
+            if (index === current) {
+              d3.select(this).attr('transform', `translate(${d.y},${d.x})`);
+              return;
+            }
+            onChangeRef.current?.(moveBranch(data, d.data.id, index));
+          }));
+    }
+
     // Node backgrounds
     nodes.append('rect')
       .attr('x', -60)
@@ -157,10 +381,10 @@ const DecisionTree: React.FC<DecisionTreeProps> = ({ data }) => {
       .transition()
       .duration(600)
       .delay((_, i) => i * 80)
-      .attr('opacity', 1);
+      .attr('opacity', d => isOptimal(d.data.id) ? 1 : 0.45);
 
     // Recommended highlight
-    nodes.filter(d => data.recommendation === d.data.id)
+    nodes.filter(d => recommendation === d.data.id)
       .append('rect')
       .attr('x', -64)
       .attr('y', -29)
@@ -181,6 +405,16 @@ const DecisionTree: React.FC<DecisionTreeProps> = ({ data }) => {
       .attr('r', 6)
       .attr('fill', d => sentimentColors[d.data.sentiment || 'neutral']);
 
+    // Warning dot for chance nodes whose probabilities had to be adjusted
+    nodes.filter(d => Boolean(evaluation.nodes[d.data.id]?.probabilityIssue))
+      .append('circle')
+      .attr('cx', 50)
+      .attr('cy', -15)
+      .attr('r', 6)
+      .attr('fill', '#f59e0b')
+      .append('title')
+      .text(d => `Probabilities summed to ${evaluation.nodes[d.data.id].statedProbabilitySum}%`);
+
     // Node type icon
     nodes.append('circle')
       .attr('cx', -45)
@@ -220,14 +454,25 @@ const DecisionTree: React.FC<DecisionTreeProps> = ({ data }) => {
       .attr('font-weight', 'bold')
       .text(d => `Score: ${d.data.value}/10`);
 
+    // Expected value for decision and chance nodes
+    nodes.filter(d => d.data.type !== 'outcome' || Boolean(d.data.children?.length))
+      .append('text')
+      .attr('x', 0)
+      .attr('y', 18)
+      .attr('text-anchor', 'middle')
+      .attr('fill', d => isOptimal(d.data.id) ? '#e5e7eb' : '#6b7280')
+      .attr('font-size', '10px')
+      .attr('font-weight', 'bold')
+      .text(d => `EV: ${formatEV(evaluation.nodes[d.data.id].ev)}`);
+
     // Animation for recommended path
-    const recommendedNode = root.descendants().find(d => d.data.id === data.recommendation);
+    const recommendedNode = root.descendants().find(d => d.data.id === recommendation);
     if (recommendedNode) {
       svg.selectAll('.recommended-highlight')
         .style('animation', 'pulse 2s ease-in-out infinite');
     }
 
-  }, [data, dimensions]);
+  }, [data, evaluation, recommendation, dimensions, isEditable]);
 
   if (!data || !data.root) {
     return (
@@ -246,8 +491,15 @@ const DecisionTree: React.FC<DecisionTreeProps> = ({ data }) => {
       {/* Controls */}
       <div className="absolute top-4 left-4 z-10 flex flex-col gap-2">
         <div className="bg-black/90 backdrop-blur border border-neutral-800 px-3 py-2 rounded text-neutral-500 text-[10px] flex items-center gap-2">
-          <Move size={12} /> <span className="uppercase tracking-wider">Pan & Zoom</span>
+          <Move size={12} /> <span className="uppercase tracking-wider">Pan & Zoom{isEditable ? ' · Drag to reorder' : ''}</span>
         </div>
+        <ViewExportButton
+          getSvg={() => svgRef.current}
+          title={data.root.label}
+          subtitle={evaluation ? `Decision tree · expected value ${formatEV(evaluation.nodes[data.root.id].ev)}` : 'Decision tree'}
+          legend={exportLegend}
+          fit="content"
+        />
       </div>
 
       {/* Legend */}
@@ -274,7 +526,29 @@ const DecisionTree: React.FC<DecisionTreeProps> = ({ data }) => {
               <div className="w-3 h-3 rounded-full bg-rose-500" />
               <span className="text-neutral-400">Negative</span>
             </div>
+            <div className="flex items-center gap-2 text-xs mt-1">
+              <div className="w-3 h-0.5 bg-neutral-200" />
+              <span className="text-neutral-400">Optimal path</span>
+            </div>
           </div>
+          {evaluation && (
+            <div className="border-t border-neutral-800 my-2 pt-2 max-w-[200px]">
+              <p className="text-xs text-neutral-300">
+                Expected value: <span className="font-mono font-bold text-white">{formatEV(evaluation.nodes[data.root.id].ev)}</span>
+              </p>
+              {modelRecommendation && (
+                <p className="text-[10px] text-neutral-500 mt-1 leading-relaxed">
+                  The AI suggested "{modelRecommendation}"; the numbers favour a different branch.
+                </p>
+              )}
+              {evaluation.warnings.map((warning, i) => (
+                <p key={i} className="flex gap-1 text-[10px] text-amber-400/80 mt-1 leading-relaxed">
+                  <AlertTriangle size={10} className="shrink-0 mt-0.5" />
+                  {warning}
+                </p>
+              ))}
+            </div>
+          )}
         </div>
       </div>
 
@@ -304,7 +578,7 @@ const DecisionTree: React.FC<DecisionTreeProps> = ({ data }) => {
                   </div>
                 )}
                 <span className="text-xs text-neutral-400 uppercase tracking-wider">{selectedNode.type}</span>
-                {data.recommendation === selectedNode.id && (
+                {recommendation === selectedNode.id && (
                   <span className="flex items-center gap-1 bg-emerald-500/20 text-emerald-400 text-xs px-2 py-0.5 rounded-full">
                     <Award size={10} />
                     Recommended
@@ -312,10 +586,18 @@ const DecisionTree: React.FC<DecisionTreeProps> = ({ data }) => {
                 )}
               </div>
               <h3 className="text-white font-semibold mb-2">{selectedNode.label}</h3>
-              <div className="flex gap-4 text-xs">
-                {selectedNode.probability !== undefined && (
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs">
+                {evaluation?.nodes[selectedNode.id]?.probability !== undefined && (
                   <span className="text-amber-400">
-                    Probability: {selectedNode.probability}%
+                    Probability: {evaluation.nodes[selectedNode.id].probability}%
+                    {selectedNode.probability !== evaluation.nodes[selectedNode.id].probability && (
+                      <span className="text-neutral-500"> (stated {selectedNode.probability ?? '–'}%)</span>
+                    )}
+                  </span>
+                )}
+                {evaluation?.nodes[selectedNode.id] && (
+                  <span className="text-neutral-300">
+                    Expected value: {formatEV(evaluation.nodes[selectedNode.id].ev)}
                   </span>
                 )}
                 {selectedNode.value !== undefined && (
@@ -324,9 +606,27 @@ const DecisionTree: React.FC<DecisionTreeProps> = ({ data }) => {
                   </span>
                 )}
               </div>
+              {isEditable && (
+                <NodeEditor
+                  key={selectedNode.id}
+                  node={selectedNode}
+                  isRoot={selectedNode.id === data.root.id}
+                  hasProbability={Boolean(selectedParent) && selectedParent!.type !== 'decision'}
+                  onPatch={(patch) => onChange!(updateNode(data, selectedNode.id, patch))}
+                  onAddBranch={() => {
+                    const result = addBranch(data, selectedNode.id);
+                    onChange!(result.data);
+                    setSelectedId(result.id);
+                  }}
+                  onDelete={() => {
+                    setSelectedId(selectedParent?.id ?? null);
+                    onChange!(removeSubtree(data, selectedNode.id));
+                  }}
+                />
+              )}
             </div>
             <button
-              onClick={() => setSelectedNode(null)}
+              onClick={() => setSelectedId(null)}
               className="text-neutral-500 hover:text-white text-xs"
             >
               Close
@@ -0,0 +1,70 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, FileText, FileCode, Printer } from 'lucide-react';
+import { ReportFormat } from '../utils/report';
+
+interface ExportMenuProps {
+  onExport: (format: ReportFormat) => void;
+}
+
+const FORMATS: { id: ReportFormat; label: string; hint: string; icon: React.ElementType }[] = [
+  { id: 'markdown', label: 'Markdown', hint: '.md with embedded charts', icon: FileText },
+  { id: 'html', label: 'Web page', hint: 'Self-contained .html', icon: FileCode },
+  { id: 'pdf', label: 'Print / PDF', hint: 'Opens the print dialog', icon: Printer },
+];
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ onExport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="neu-button p-2.5 transition-all duration-200"
+        style={{
+          color: 'var(--text-tertiary)',
+          borderRadius: 'var(--radius-md)',
+        }}
+        title="Export Decision Report"
+      >
+        <Download size={18} />
+      </button>
+
+      {isOpen && (
+        <div
+          className="absolute right-0 top-full mt-2 z-50 w-56 p-1.5 neu-panel animate-fade-in"
+          style={{ borderRadius: 'var(--radius-lg)' }}
+        >
+          {FORMATS.map(({ id, label, hint, icon: Icon }) => (
+            <button
+              key={id}
+              onClick={() => {
+                setIsOpen(false);
+                onExport(id);
+              }}
+              className="w-full flex items-center gap-3 px-3 py-2 text-left rounded-lg transition-colors duration-200 hover:bg-[var(--bg-glass)]"
+            >
+              <Icon size={16} style={{ color: 'var(--text-tertiary)' }} />
+              <span className="flex flex-col">
+                <span className="text-xs font-semibold" style={{ color: 'var(--text-primary)' }}>{label}</span>
+                <span className="text-[10px]" style={{ color: 'var(--text-tertiary)' }}>{hint}</span>
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
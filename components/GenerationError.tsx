@@ -0,0 +1,59 @@
+import React from 'react';
+import { AlertCircle, RefreshCw } from 'lucide-react';
+import { AIError, describeAIError } from '../services/errors';
+
+interface GenerationErrorProps {
+  error: AIError;
+  label: string;
+  onRetry: () => void;
+  isRetrying?: boolean;
+}
+
+// Shown in place of a visualization whose generation failed, with the reason and a retry for just that tab
+const GenerationError: React.FC<GenerationErrorProps> = ({ error, label, onRetry, isRetrying }) => {
+  const { title, hint } = describeAIError(error);
+
+  return (
+    <div
+      className="absolute inset-0 flex flex-col items-center justify-center z-20 p-8 text-center"
+      style={{ background: 'var(--bg-base)' }}
+    >
+      <div
+        className="neu-bubble p-4 mb-4"
+        style={{ width: 64, height: 64, display: 'flex', alignItems: 'center', justifyContent: 'center' }}
+      >
+        <AlertCircle size={28} strokeWidth={1.5} style={{ color: 'var(--bubble-text)' }} />
+      </div>
+      <p className="uppercase tracking-widest text-xs mb-1" style={{ color: 'var(--text-tertiary)' }}>
+        {label} unavailable
+      </p>
+      <h3 className="text-base font-semibold mb-2" style={{ color: 'var(--text-primary)' }}>
+        {title}
+      </h3>
+      <p className="text-sm max-w-sm leading-relaxed" style={{ color: 'var(--text-secondary)' }}>
+        {hint}
+      </p>
+
+      {error.details.length > 0 && (
+        <ul
+          className="mt-3 text-[11px] text-left max-w-sm list-disc ml-4 space-y-0.5"
+          style={{ color: 'var(--text-muted)' }}
+        >
+          {error.details.slice(0, 3).map((detail, i) => <li key={i}>{detail}</li>)}
+        </ul>
+      )}
+
+      <button
+        onClick={onRetry}
+        disabled={isRetrying}
+        className="neu-button mt-6 flex items-center gap-2 px-4 py-2 text-xs font-semibold uppercase tracking-wider disabled:opacity-50 disabled:cursor-not-allowed"
+        style={{ borderRadius: 'var(--radius-full)', color: 'var(--text-secondary)' }}
+      >
+        <RefreshCw size={14} className={isRetrying ? 'animate-spin' : ''} />
+        {isRetrying ? 'Retrying...' : `Retry ${label}`}
+      </button>
+    </div>
+  );
+};
+
+export default GenerationError;
@@ -1,13 +1,48 @@
 import React, { useEffect, useRef, useState } from 'react';
 import * as d3 from 'd3';
-import { MindMapNode, MindMapLink } from '../types';
-import { Move, Edit2, Check, Activity, LayoutGrid, Shuffle } from 'lucide-react';
+import { MindMapNode, MindMapLink, MindMapEdit } from '../types';
+import { Move, Edit2, Check, Activity, Shuffle, Plus, Trash2, Star, Crosshair, ChevronRight, Network, ListTree, Orbit, GitFork, Group, Loader2 } from 'lucide-react';
+import { findMindMapNode, updateMindMapNode, addMindMapChild, removeMindMapNode } from '../utils/mindMapEdit';
+import { toggleCollapsed, visibleTree, pathToNode } from '../utils/mindMapView';
+import { MindMapLayout, LayoutTargets, layoutTargets, linkPath } from '../utils/mindMapLayout';
+import ViewExportButton from './ViewExportButton';
 
 interface MindMapProps {
   data: MindMapNode | null;
-  onNodeUpdate?: (updatedNode: MindMapNode) => void;
+  // Receives the edited map and what changed; omit for a read-only map
+  onChange?: (data: MindMapNode, edits: MindMapEdit[]) => void;
+  pendingEdits?: number; // Edits not yet shared with the conversation
+  // Receives the map with a branch collapsed or expanded (view state, not shared with the conversation)
+  onCollapseChange?: (data: MindMapNode) => void;
 }
 
+// Long enough to tell a single click (collapse) from a double click (edit)
+const CLICK_DELAY_MS = 220;
+
+const NODE_TYPES: MindMapNode['type'][] = ['topic', 'option', 'outcome', 'pro', 'con'];
+
+// Outer ring colors for what the last merge with a regenerated map did to a node
+const CHANGE_COLORS: Record<NonNullable<MindMapNode['change']>, string> = {
+  added: '#34d399',
+  changed: '#f59e0b',
+  removed: 'var(--text-muted)',
+};
+
+const hasChanges = (node: MindMapNode): boolean =>
+  Boolean(node.change) || (node.children || []).some(hasChanges);
+
+const hasProvisional = (node: MindMapNode): boolean =>
+  Boolean(node.provisional) || (node.children || []).some(hasProvisional);
+
+const LAYOUTS: { id: MindMapLayout; label: string; icon: React.ElementType }[] = [
+  { id: 'chaos', label: 'Chaos', icon: Shuffle },
+  { id: 'organized', label: 'Tree', icon: Network },
+  { id: 'horizontal', label: 'Horizontal', icon: ListTree },
+  { id: 'radial', label: 'Radial', icon: Orbit },
+  { id: 'cluster', label: 'Cluster', icon: GitFork },
+  { id: 'grouped', label: 'By Type', icon: Group },
+];
+
 // Utility to ensure data has required fields for D3 with STABLE IDs
 const sanitizeData = (node: MindMapNode, depth = 0, index = 0, parentId = 'root'): MindMapNode => {
   if (!node) return node;
@@ -61,7 +96,7 @@ const flattenGraph = (node: MindMapNode): { nodes: MindMapNode[]; links: MindMap
   return { nodes, links };
 };
 
-const MindMap: React.FC<MindMapProps> = ({ data: rawData, onNodeUpdate }) => {
+const MindMap: React.FC<MindMapProps> = ({ data: rawData, onChange, pendingEdits = 0, onCollapseChange }) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const wrapperRef = useRef<HTMLDivElement>(null);
 
@@ -71,7 +106,25 @@ const MindMap: React.FC<MindMapProps> = ({ data: rawData, onNodeUpdate }) => {
   const [dimensions, setDimensions] = useState({ width: 800, height: 600 });
   const [editingNode, setEditingNode] = useState<MindMapNode | null>(null);
   const [editName, setEditName] = useState("");
-  const [layoutMode, setLayoutMode] = useState<'chaos' | 'organized'>('chaos');
+  const [editType, setEditType] = useState<MindMapNode['type']>('topic');
+  const [editWeight, setEditWeight] = useState(5);
+  const [editRecommended, setEditRecommended] = useState(false);
+  const [childName, setChildName] = useState("");
+  const [focusId, setFocusId] = useState<string | null>(null);
+  // Latest data and callbacks for the D3 click handlers, which are bound once per node
+  const dataRef = useRef(rawData);
+  dataRef.current = rawData;
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  const onCollapseRef = useRef(onCollapseChange);
+  onCollapseRef.current = onCollapseChange;
+  const clickTimerRef = useRef<number | null>(null);
+
+  // A regenerated map may no longer contain the focused branch
+  useEffect(() => {
+    if (focusId && (!rawData || !findMindMapNode(rawData, focusId))) setFocusId(null);
+  }, [rawData, focusId]);
+  const [layoutMode, setLayoutMode] = useState<MindMapLayout>('chaos');
 
   // Handle Resize
   useEffect(() => {
@@ -196,26 +249,17 @@ const MindMap: React.FC<MindMapProps> = ({ data: rawData, onNodeUpdate }) => {
       // Process Data
       let nodes: any[] = [];
       let links: any[] = [];
-      let treeTargets: Record<string, { x: number, y: number }> = {};
+      let treeTargets: LayoutTargets = {};
 
-      if (rawData) {
-        const safeData = sanitizeData(rawData);
+      const view = rawData ? visibleTree(rawData, focusId) : null;
+      if (view) {
+        const safeData = sanitizeData(view.root);
         const flat = flattenGraph(safeData);
         nodes = flat.nodes;
         links = flat.links;
 
-        // Calculate Tree Layout if Organized
-        if (layoutMode === 'organized') {
-          const root = d3.hierarchy(safeData);
-          const treeLayout = d3.tree().nodeSize([60, 180]);
-          treeLayout(root);
-          root.descendants().forEach((d: any) => {
-            treeTargets[d.data.id] = {
-              x: d.y - (width * 0.2),
-              y: d.x
-            };
-          });
-        }
+        // Target positions for the structured layouts (none in chaos mode)
+        treeTargets = layoutTargets(safeData, layoutMode, width, height);
       }
 
       // MERGE STRATEGY: Preserve Physics State
@@ -234,7 +278,7 @@ const MindMap: React.FC<MindMapProps> = ({ data: rawData, onNodeUpdate }) => {
       nodesRef.current = nodes;
 
       // Update Forces based on Mode
-      if (layoutMode === 'organized') {
+      if (layoutMode !== 'chaos') {
         simulation.force("charge", null);
         simulation.force("center", null);
         simulation.force("collide", null);
@@ -317,8 +361,18 @@ const MindMap: React.FC<MindMapProps> = ({ data: rawData, onNodeUpdate }) => {
         )
         .on("click", (e, d) => {
           e.stopPropagation();
-          setEditingNode(d);
-          setEditName(d.name);
+          if (clickTimerRef.current) clearTimeout(clickTimerRef.current);
+          clickTimerRef.current = window.setTimeout(() => {
+            clickTimerRef.current = null;
+            handleNodeClick(d.id);
+          }, CLICK_DELAY_MS);
+        })
+        .on("dblclick", (e, d) => {
+          e.stopPropagation();
+          if (clickTimerRef.current) clearTimeout(clickTimerRef.current);
+          clickTimerRef.current = null;
+          const node = dataRef.current && findMindMapNode(dataRef.current, d.id);
+          if (node && onChangeRef.current) openEditor(node);
         });
 
       // Spawn Animation - Enhanced Pop Effect
@@ -497,9 +551,32 @@ const MindMap: React.FC<MindMapProps> = ({ data: rawData, onNodeUpdate }) => {
         .attr("font-size", "0px")
         .attr("opacity", 0);
 
+      // Badge with the number of hidden descendants on collapsed nodes
+      const badgeEnter = nodeEnter.append("g")
+        .attr("class", "collapse-badge")
+        .style("pointer-events", "none");
+      badgeEnter.append("circle")
+        .attr("r", 10)
+        .attr("fill", "var(--text-primary)")
+        .attr("stroke", "var(--bg-base)")
+        .attr("stroke-width", 2);
+      badgeEnter.append("text")
+        .attr("text-anchor", "middle")
+        .attr("dy", "0.35em")
+        .attr("fill", "var(--bg-base)")
+        .style("font-size", "9px")
+        .style("font-weight", "bold");
+
       // MERGE with enhanced animations
       const nodeMerge = nodeEnter.merge(node);
 
+      const hidden = view?.hidden || {};
+      nodeMerge.select(".collapse-badge")
+        .style("display", (d: any) => hidden[d.id] ? null : "none")
+        .attr("transform", (d: any) => `translate(${calcRadius(d.weight) * 0.75},${-calcRadius(d.weight) * 0.75})`)
+        .select("text")
+        .text((d: any) => `+${hidden[d.id] || 0}`);
+
       // Transform animation with bounce
       nodeMerge.transition()
         .duration(800)
@@ -516,11 +593,18 @@ const MindMap: React.FC<MindMapProps> = ({ data: rawData, onNodeUpdate }) => {
         .attr("r", (d: any) => calcRadius(d.weight))
         .attr("filter", (d: any) => d.isRecommendation ? "url(#neu-recommended)" : "url(#neu-shadow)");
 
-      // Update outer ring
+      // Update outer ring, highlighting nodes the last merge added or changed
       nodeMerge.select(".outer-ring")
+        .attr("stroke-dasharray", (d: any) => d.change === 'removed' ? "4,3" : d.provisional ? "2,4" : null)
         .transition()
         .duration(300)
-        .attr("r", (d: any) => calcRadius(d.weight) + 2);
+        .attr("r", (d: any) => calcRadius(d.weight) + (d.change ? 4 : 2))
+        .attr("stroke", (d: any) => d.change ? CHANGE_COLORS[d.change as keyof typeof CHANGE_COLORS] : "var(--bubble-border)")
+        .attr("stroke-width", (d: any) => d.change && d.change !== 'removed' ? 3 : 2)
+        .attr("opacity", (d: any) => d.change ? 0.9 : 0.4);
+
+      // Nodes the model dropped fade out but stay until the next merge; parsed ones are half-drawn
+      nodeMerge.style("opacity", (d: any) => d.change === 'removed' ? 0.35 : d.provisional ? 0.6 : null);
 
       // Update inner highlights
       nodeMerge.select(".inner-highlight-top")
@@ -594,15 +678,7 @@ const MindMap: React.FC<MindMapProps> = ({ data: rawData, onNodeUpdate }) => {
           // If D3 hasn't resolved objects yet, skip
           if (!d.source || !d.target || typeof d.source === 'string' || typeof d.target === 'string') return "";
 
-          if (layoutMode === 'organized') {
-            // Curved tree lines
-            return `M${d.source.x},${d.source.y}
-                            C${(d.source.x + d.target.x) / 2},${d.source.y}
-                             ${(d.source.x + d.target.x) / 2},${d.target.y}
-                             ${d.target.x},${d.target.y}`;
-          }
-          // Straight chaos lines
-          return `M${d.source.x},${d.source.y}L${d.target.x},${d.target.y}`;
+          return linkPath(layoutMode, d.source, d.target);
         });
 
         nodeMerge.attr("transform", (d: any) => {
@@ -635,13 +711,57 @@ const MindMap: React.FC<MindMapProps> = ({ data: rawData, onNodeUpdate }) => {
       console.error("D3 Render Error:", e);
     }
 
-  }, [rawData, dimensions, layoutMode]);
+  }, [rawData, dimensions, layoutMode, focusId]);
+
+  // Single click folds a branch; leaves (and maps without collapse support) open the editor
+  function handleNodeClick(id: string) {
+    const data = dataRef.current;
+    const node = data && findMindMapNode(data, id);
+    if (!node) return;
+    if (node.children?.length && onCollapseRef.current) {
+      onCollapseRef.current(toggleCollapsed(data!, id));
+    } else if (onChangeRef.current) {
+      openEditor(node);
+    }
+  }
+
+  function openEditor(node: MindMapNode) {
+    setEditingNode(node);
+    setEditName(node.name);
+    setEditType(node.type);
+    setEditWeight(node.weight || 1);
+    setEditRecommended(Boolean(node.isRecommendation));
+    setChildName("");
+  }
+
+  // Applies the form to the stored tree (the D3 copy may be stale)
+  const applyForm = (root: MindMapNode) => updateMindMapNode(root, editingNode!.id, {
+    name: editName,
+    ...(editingNode!.type !== 'root' ? { type: editType } : {}),
+    weight: editWeight,
+    isRecommendation: editRecommended,
+  });
 
   const saveEdit = () => {
-    if (editingNode && onNodeUpdate) {
-      onNodeUpdate({ ...editingNode, name: editName });
-      setEditingNode(null);
-    }
+    if (!editingNode || !rawData || !onChange) return;
+    const { root, edits } = applyForm(rawData);
+    if (edits.length) onChange(root, edits);
+    setEditingNode(null);
+  };
+
+  const addChild = () => {
+    if (!editingNode || !rawData || !onChange || !childName.trim()) return;
+    const updated = applyForm(rawData);
+    const added = addMindMapChild(updated.root, editingNode.id, childName);
+    onChange(added.root, [...updated.edits, ...added.edits]);
+    openEditor(findMindMapNode(added.root, editingNode.id)!);
+  };
+
+  const deleteNode = () => {
+    if (!editingNode || !rawData || !onChange) return;
+    const { root, edits } = removeMindMapNode(rawData, editingNode.id);
+    if (edits.length) onChange(root, edits);
+    setEditingNode(null);
   };
 
   if (!rawData) {
@@ -668,34 +788,41 @@ const MindMap: React.FC<MindMapProps> = ({ data: rawData, onNodeUpdate }) => {
             border: '1px solid var(--glass-border)',
           }}
         >
-          <button
-            onClick={() => setLayoutMode('chaos')}
-            className="p-2 rounded-lg transition-all duration-200 flex items-center gap-2 text-xs uppercase font-semibold hover:scale-105"
-            style={{
-              background: layoutMode === 'chaos'
-                ? 'linear-gradient(135deg, var(--accent) 0%, #8b5cf6 100%)'
-                : 'transparent',
-              color: layoutMode === 'chaos' ? 'white' : 'var(--text-tertiary)',
-              boxShadow: layoutMode === 'chaos' ? '0 2px 10px var(--accent-glow)' : 'none',
-            }}
-          >
-            <Shuffle size={14} /> Chaos
-          </button>
-          <button
-            onClick={() => setLayoutMode('organized')}
-            className="p-2 rounded-lg transition-all duration-200 flex items-center gap-2 text-xs uppercase font-semibold hover:scale-105"
-            style={{
-              background: layoutMode === 'organized'
-                ? 'linear-gradient(135deg, var(--accent) 0%, #8b5cf6 100%)'
-                : 'transparent',
-              color: layoutMode === 'organized' ? 'white' : 'var(--text-tertiary)',
-              boxShadow: layoutMode === 'organized' ? '0 2px 10px var(--accent-glow)' : 'none',
-            }}
-          >
-            <LayoutGrid size={14} /> Organized
-          </button>
+          {LAYOUTS.map(({ id, label, icon: Icon }) => (
+            <button
+              key={id}
+              onClick={() => setLayoutMode(id)}
+              className="p-2 rounded-lg transition-all duration-200 flex items-center gap-2 text-xs uppercase font-semibold hover:scale-105"
+              style={{
+                background: layoutMode === id
+                  ? 'linear-gradient(135deg, var(--accent) 0%, #8b5cf6 100%)'
+                  : 'transparent',
+                color: layoutMode === id ? 'white' : 'var(--text-tertiary)',
+                boxShadow: layoutMode === id ? '0 2px 10px var(--accent-glow)' : 'none',
+              }}
+            >
+              <Icon size={14} /> {label}
+            </button>
+          ))}
         </div>
 
+        {rawData && (
+          <ViewExportButton
+            getSvg={() => svgRef.current}
+            title={rawData.name}
+            subtitle="Mind map"
+            fit="content"
+            variant="glass"
+            legend={[
+              { label: 'Recommended', color: 'var(--accent)' },
+              ...(hasChanges(rawData) ? [
+                { label: 'New', color: CHANGE_COLORS.added },
+                { label: 'Changed', color: CHANGE_COLORS.changed },
+              ] : []),
+            ]}
+          />
+        )}
+
         <div
           className="px-3 py-2 rounded-lg text-[10px] flex items-center gap-2 backdrop-blur-xl"
           style={{
@@ -714,8 +841,21 @@ const MindMap: React.FC<MindMapProps> = ({ data: rawData, onNodeUpdate }) => {
             color: 'var(--text-muted)',
           }}
         >
-          <Edit2 size={12} /> <span className="uppercase tracking-wider">Click Node</span>
+          <Edit2 size={12} /> <span className="uppercase tracking-wider">Click: Fold · Double-click: Edit</span>
         </div>
+        {pendingEdits > 0 && (
+          <div
+            className="px-3 py-2 rounded-lg text-[10px] flex items-center gap-2 backdrop-blur-xl"
+            style={{
+              background: 'var(--bg-glass)',
+              border: '1px solid var(--glass-border)',
+              color: 'var(--text-secondary)',
+            }}
+            title="Your changes will be shared with the assistant along with your next message"
+          >
+            <Check size={12} /> <span className="uppercase tracking-wider">{pendingEdits} edit{pendingEdits === 1 ? '' : 's'} to share</span>
+          </div>
+        )}
       </div>
 
       {/* Legend */}
@@ -741,6 +881,35 @@ const MindMap: React.FC<MindMapProps> = ({ data: rawData, onNodeUpdate }) => {
             }}
           />
         </div>
+        {rawData && hasProvisional(rawData) && (
+          <div
+            className="flex items-center gap-2 px-3 py-1.5 rounded-full backdrop-blur-xl text-[10px] uppercase font-bold tracking-widest"
+            style={{
+              background: 'var(--bg-glass)',
+              border: '1px solid var(--glass-border)',
+              color: 'var(--text-secondary)',
+            }}
+          >
+            <Loader2 size={12} className="animate-spin" /> Draft from reply
+          </div>
+        )}
+        {rawData && hasChanges(rawData) && (
+          <div
+            className="flex items-center gap-3 px-3 py-1.5 rounded-full backdrop-blur-xl text-[10px] uppercase font-bold tracking-widest"
+            style={{
+              background: 'var(--bg-glass)',
+              border: '1px solid var(--glass-border)',
+              color: 'var(--text-secondary)',
+            }}
+          >
+            {(['added', 'changed', 'removed'] as const).map(change => (
+              <span key={change} className="flex items-center gap-1.5">
+                <span className="w-2.5 h-2.5 rounded-full border-2" style={{ borderColor: CHANGE_COLORS[change] }} />
+                {change === 'added' ? 'New' : change === 'changed' ? 'Changed' : 'Dropped'}
+              </span>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Background Grid */}
@@ -752,6 +921,32 @@ const MindMap: React.FC<MindMapProps> = ({ data: rawData, onNodeUpdate }) => {
         }}
       />
 
+      {/* Breadcrumbs back out of focus mode */}
+      {focusId && (
+        <div
+          className="absolute top-4 left-1/2 -translate-x-1/2 z-10 flex items-center gap-1 px-3 py-1.5 rounded-full backdrop-blur-xl text-[10px] uppercase tracking-wider max-w-[60%] overflow-hidden"
+          style={{
+            background: 'var(--bg-glass)',
+            border: '1px solid var(--glass-border)',
+            color: 'var(--text-tertiary)',
+          }}
+        >
+          {pathToNode(rawData, focusId).map((node, i, path) => (
+            <React.Fragment key={node.id}>
+              {i > 0 && <ChevronRight size={10} className="shrink-0" />}
+              <button
+                onClick={() => setFocusId(i === 0 ? null : node.id)}
+                disabled={i === path.length - 1}
+                className="truncate hover:underline disabled:no-underline font-semibold"
+                style={{ color: i === path.length - 1 ? 'var(--text-primary)' : undefined }}
+              >
+                {node.name}
+              </button>
+            </React.Fragment>
+          ))}
+        </div>
+      )}
+
       <svg ref={svgRef} width={dimensions.width} height={dimensions.height} className="w-full h-full block cursor-grab active:cursor-grabbing" />
 
       {/* Edit Modal */}
@@ -788,7 +983,99 @@ const MindMap: React.FC<MindMapProps> = ({ data: rawData, onNodeUpdate }) => {
               onKeyDown={(e) => e.key === 'Enter' && saveEdit()}
               placeholder="Rename this thought..."
             />
+
+            <div className="flex items-center gap-3 mb-4 text-xs" style={{ color: 'var(--text-tertiary)' }}>
+              {editingNode.type !== 'root' && (
+                <select
+                  value={editType}
+                  onChange={(e) => setEditType(e.target.value as MindMapNode['type'])}
+                  className="rounded-lg px-2 py-1.5 text-xs capitalize focus:outline-none"
+                  style={{
+                    background: 'var(--bg-tertiary)',
+                    border: '1px solid var(--glass-border)',
+                    color: 'var(--text-primary)',
+                  }}
+                >
+                  {NODE_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                </select>
+              )}
+              <button
+                onClick={() => setEditRecommended(!editRecommended)}
+                className="flex items-center gap-1 px-2 py-1.5 rounded-lg uppercase font-semibold text-[10px] transition-all duration-200"
+                style={{
+                  border: '1px solid var(--glass-border)',
+                  color: editRecommended ? 'var(--text-primary)' : 'var(--text-muted)',
+                  background: editRecommended ? 'var(--bg-tertiary)' : 'transparent',
+                }}
+                title="Mark as the preferred choice"
+              >
+                <Star size={12} fill={editRecommended ? 'currentColor' : 'none'} /> Preferred
+              </button>
+            </div>
+
+            <label className="flex items-center gap-3 mb-4 text-[10px] uppercase tracking-wider" style={{ color: 'var(--text-tertiary)' }}>
+              Importance
+              <input
+                type="range"
+                min={1}
+                max={10}
+                value={editWeight}
+                onChange={(e) => setEditWeight(Number(e.target.value))}
+                className="flex-1 cursor-pointer"
+                style={{ accentColor: 'var(--accent)' }}
+              />
+              <span className="font-mono w-6 text-right" style={{ color: 'var(--text-primary)' }}>{editWeight}</span>
+            </label>
+
+            <div className="flex gap-2 mb-4">
+              <input
+                type="text"
+                value={childName}
+                onChange={(e) => setChildName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && addChild()}
+                className="flex-1 rounded-xl px-3 py-2 text-xs focus:outline-none"
+                style={{
+                  background: 'var(--bg-tertiary)',
+                  border: '1px solid var(--glass-border)',
+                  color: 'var(--text-primary)',
+                }}
+                placeholder="Add a sub-thought..."
+              />
+              <button
+                onClick={addChild}
+                disabled={!childName.trim()}
+                className="px-3 rounded-xl transition-all duration-200 disabled:opacity-40"
+                style={{ border: '1px solid var(--glass-border)', color: 'var(--text-secondary)' }}
+                title="Add child"
+              >
+                <Plus size={14} />
+              </button>
+            </div>
+
             <div className="flex justify-end gap-2">
+              {editingNode.children?.length ? (
+                <button
+                  onClick={() => {
+                    setFocusId(editingNode.id === rawData.id ? null : editingNode.id);
+                    setEditingNode(null);
+                  }}
+                  className="px-3 py-2 transition-all duration-200 flex items-center gap-1 text-xs uppercase font-semibold rounded-lg hover:scale-105"
+                  style={{ color: 'var(--text-tertiary)' }}
+                  title="Show only this branch"
+                >
+                  <Crosshair size={14} /> Focus
+                </button>
+              ) : null}
+              {editingNode.type !== 'root' && (
+                <button
+                  onClick={deleteNode}
+                  className="mr-auto px-3 py-2 transition-all duration-200 flex items-center gap-1 text-xs uppercase font-semibold rounded-lg hover:scale-105"
+                  style={{ color: 'var(--text-muted)' }}
+                  title="Delete this node and everything under it"
+                >
+                  <Trash2 size={14} /> Delete
+                </button>
+              )}
               <button
                 onClick={() => setEditingNode(null)}
                 className="px-4 py-2 transition-all duration-200 text-xs uppercase font-semibold rounded-lg hover:scale-105"
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useRef } from 'react';
 import {
   LineChart,
   Line,
@@ -10,6 +10,7 @@ import {
   ResponsiveContainer
 } from 'recharts';
 import { ProjectionScenario } from '../types';
+import ViewExportButton from './ViewExportButton';
 
 interface ProjectionViewProps {
   scenarios: ProjectionScenario[];
@@ -33,6 +34,8 @@ const CustomTooltip = ({ active, payload, label }: any) => {
 };
 
 const ProjectionView: React.FC<ProjectionViewProps> = ({ scenarios }) => {
+  const chartRef = useRef<HTMLDivElement>(null);
+
   if (!scenarios || scenarios.length === 0) {
     return (
       <div className="flex items-center justify-center h-full text-neutral-500">
@@ -62,12 +65,20 @@ const ProjectionView: React.FC<ProjectionViewProps> = ({ scenarios }) => {
 
   return (
     <div className="flex flex-col h-full w-full bg-black p-6">
-      <div className="mb-6 border-l-2 border-white pl-4">
-          <h3 className="text-white font-bold text-sm uppercase tracking-widest">Future Projection</h3>
-          <p className="text-neutral-500 text-xs mt-1">Satisfaction Impact Over Time</p>
+      <div className="mb-6 border-l-2 border-white pl-4 flex justify-between items-start gap-4">
+          <div>
+              <h3 className="text-white font-bold text-sm uppercase tracking-widest">Future Projection</h3>
+              <p className="text-neutral-500 text-xs mt-1">Satisfaction Impact Over Time</p>
+          </div>
+          <ViewExportButton
+              getSvg={() => chartRef.current?.querySelector<SVGSVGElement>('svg.recharts-surface') || null}
+              title="Future Projection"
+              subtitle="Satisfaction impact over time (0-100)"
+              legend={scenarios.map((s, i) => ({ label: s.name, color: colors[i % colors.length], shape: 'line' as const }))}
+          />
       </div>
       
-      <div className="flex-grow w-full h-64">
+      <div ref={chartRef} className="flex-grow w-full h-64">
         <ResponsiveContainer width="100%" height="100%">
           <LineChart
             data={chartData}
@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import { ChevronDown, Cpu } from 'lucide-react';
+import { getActiveProvider, listProviders, setActiveProvider } from '../services/providers';
+
+interface ProviderSelectorProps {
+  className?: string;
+  disabled?: boolean;
+}
+
+const ProviderSelector: React.FC<ProviderSelectorProps> = ({ className = '', disabled }) => {
+  const [activeId, setActiveId] = useState(() => getActiveProvider().id);
+  const providers = listProviders();
+
+  const handleChange = (id: string) => {
+    setActiveProvider(id);
+    setActiveId(id);
+  };
+
+  return (
+    <div className={`relative hidden md:block ${className}`}>
+      <Cpu
+        size={14}
+        className="absolute left-3 top-1/2 -translate-y-1/2 pointer-events-none"
+        style={{ color: 'var(--text-tertiary)' }}
+      />
+      <select
+        value={activeId}
+        onChange={(e) => handleChange(e.target.value)}
+        disabled={disabled}
+        className="neu-input appearance-none text-xs pl-8 pr-8 py-2 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+        style={{ borderRadius: 'var(--radius-md)' }}
+        title="AI provider"
+      >
+        {providers.map((provider) => (
+          <option key={provider.id} value={provider.id}>
+            {provider.label}
+            {provider.isConfigured() ? '' : ' (not configured)'}
+          </option>
+        ))}
+      </select>
+      <ChevronDown
+        size={14}
+        className="absolute right-2.5 top-1/2 -translate-y-1/2 pointer-events-none"
+        style={{ color: 'var(--text-tertiary)' }}
+      />
+    </div>
+  );
+};
+
+export default ProviderSelector;
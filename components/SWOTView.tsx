@@ -5,6 +5,9 @@ import { useTheme } from '../contexts/ThemeContext';
 
 interface SWOTViewProps {
   data: SWOTAnalysis | null;
+  // Option on display; when the caller passes onSelectOption it owns the choice (e.g. to keep it in the URL)
+  selectedOption?: string | null;
+  onSelectOption?: (optionName: string) => void;
 }
 
 const quadrantConfig = {
@@ -139,9 +142,11 @@ const ScoreBar: React.FC<{ score: number; label: string }> = ({ score, label })
   );
 };
 
-const SWOTView: React.FC<SWOTViewProps> = ({ data }) => {
+const SWOTView: React.FC<SWOTViewProps> = ({ data, selectedOption: controlledOption, onSelectOption }) => {
   const { isDark } = useTheme();
-  const [selectedOption, setSelectedOption] = useState<string | null>(null);
+  const [localOption, setLocalOption] = useState<string | null>(null);
+  const selectedOption = onSelectOption ? controlledOption ?? null : localOption;
+  const setSelectedOption = onSelectOption || setLocalOption;
 
   if (!data || !data.options || data.options.length === 0) {
     return (
@@ -177,9 +182,8 @@ const SWOTView: React.FC<SWOTViewProps> = ({ data }) => {
     );
   }
 
-  const currentOption = selectedOption 
-    ? data.options.find(o => o.optionName === selectedOption) 
-    : data.options[0];
+  // An option that is no longer in the analysis (e.g. from an old link) falls back to the first one
+  const currentOption = data.options.find(o => o.optionName === selectedOption) || data.options[0];
 
   if (!currentOption) return null;
 
@@ -0,0 +1,153 @@
+import React from 'react';
+import {
+  BarChart,
+  Bar,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer
+} from 'recharts';
+import { ComparisonData } from '../types';
+import { analyzeSensitivity, TornadoBar, SCORE_SWING } from '../utils/sensitivity';
+
+interface SensitivityViewProps {
+  data: ComparisonData | null;
+}
+
+const TornadoTooltip = ({ active, payload }: any) => {
+  if (active && payload && payload.length) {
+    const bar: TornadoBar = payload[0].payload;
+    return (
+      <div className="bg-black border border-white/20 p-4 rounded shadow-2xl text-xs">
+        <p className="font-bold text-white mb-2 uppercase tracking-wide border-b border-neutral-800 pb-2">{bar.criterion}</p>
+        <p className="mb-1 font-mono text-neutral-300">Lead: {bar.low.toFixed(2)} to {bar.high.toFixed(2)}</p>
+        {bar.low < 0 && <p className="font-mono text-white">Ranking can flip</p>}
+      </div>
+    );
+  }
+  return null;
+};
+
+// Horizontal range bars: how far the leader's lead moves as one input sweeps its range.
+// Bars crossing the zero line are inputs that can change the recommendation on their own.
+const Tornado: React.FC<{ title: string; subtitle: string; bars: TornadoBar[]; margin: number }> = ({ title, subtitle, bars, margin }) => (
+  <div className="flex flex-col min-h-0">
+    <div className="mb-2">
+      <h4 className="text-white font-bold text-xs uppercase tracking-widest">{title}</h4>
+      <p className="text-neutral-500 text-[10px] mt-1">{subtitle}</p>
+    </div>
+    <div className="w-full" style={{ height: Math.max(120, bars.length * 36 + 40) }}>
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart
+          data={bars.map(bar => ({ ...bar, range: [bar.low, bar.high] }))}
+          layout="vertical"
+          margin={{ top: 10, right: 30, left: 10, bottom: 5 }}
+        >
+          <CartesianGrid strokeDasharray="3 3" stroke="#333" horizontal={false} />
+          <XAxis
+              type="number"
+              stroke="#666"
+              tick={{fill: '#888', fontSize: 10, fontFamily: 'monospace'}}
+              tickLine={{stroke: '#666'}}
+              axisLine={{stroke: '#444'}}
+              domain={['auto', 'auto']}
+          />
+          <YAxis
+              type="category"
+              dataKey="criterion"
+              width={110}
+              stroke="#666"
+              tick={{fill: '#888', fontSize: 10, fontFamily: 'monospace'}}
+              tickLine={false}
+              axisLine={{stroke: '#444'}}
+          />
+          <Tooltip content={<TornadoTooltip />} cursor={{fill: '#ffffff10'}} />
+          <ReferenceLine x={0} stroke="#fff" strokeDasharray="4 4" />
+          <ReferenceLine x={margin} stroke="#555" />
+          <Bar dataKey="range" barSize={14} isAnimationActive={false}>
+            {bars.map(bar => (
+              <Cell key={bar.criterion} fill={bar.low < 0 ? '#ffffff' : '#555555'} />
+            ))}
+          </Bar>
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  </div>
+);
+
+const SensitivityView: React.FC<SensitivityViewProps> = ({ data }) => {
+  const result = data ? analyzeSensitivity(data) : null;
+
+  if (!result) {
+    return (
+      <div className="flex items-center justify-center h-full text-neutral-500">
+        <p className="uppercase tracking-widest text-xs">
+          {data ? 'Needs at least two options and one criterion' : 'Waiting for Analysis...'}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full w-full bg-black p-6 overflow-y-auto custom-scrollbar">
+      <div className="mb-6 border-l-2 border-white pl-4 flex justify-between items-end">
+          <div>
+              <h3 className="text-white font-bold text-sm uppercase tracking-widest">Sensitivity</h3>
+              <p className="text-neutral-500 text-xs mt-1">How Robust Is the Top Choice?</p>
+          </div>
+          <div className="text-right">
+              <span className={`text-[10px] font-mono font-bold uppercase tracking-wider px-2 py-1 rounded border ${
+                  result.robustness === 'robust'
+                  ? 'bg-white text-black border-white'
+                  : result.robustness === 'moderate'
+                  ? 'text-white border-neutral-500'
+                  : 'text-neutral-400 border-neutral-700 border-dashed'
+              }`}>
+                  {result.robustness}
+              </span>
+              <p className="text-[10px] text-neutral-600 font-mono mt-2">
+                  {result.leader.toUpperCase()} LEADS {result.runnerUp.toUpperCase()} BY {result.margin.toFixed(2)}
+              </p>
+          </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Tornado
+              title="Criterion Weights"
+              subtitle="Lead over the runner-up as each weight moves from 0 to 10"
+              bars={result.weightTornado}
+              margin={result.margin}
+          />
+          <Tornado
+              title={`${result.leader} Scores`}
+              subtitle={`Lead over the runner-up if each score is off by ±${SCORE_SWING}`}
+              bars={result.scoreTornado}
+              margin={result.margin}
+          />
+      </div>
+
+      <div className="mt-6 bg-neutral-900 p-4 border border-neutral-800">
+          <h4 className="text-white font-bold text-xs uppercase tracking-widest mb-3">What Would Have to Be True</h4>
+          {result.conditions.length > 0 ? (
+              <ul className="space-y-2">
+                  {result.conditions.map((condition, i) => (
+                      <li key={i} className="flex gap-3 text-xs text-neutral-300 leading-relaxed">
+                          <span className="font-mono text-neutral-600">{String(i + 1).padStart(2, '0')}</span>
+                          <span>{condition}</span>
+                      </li>
+                  ))}
+              </ul>
+          ) : (
+              <p className="text-xs text-neutral-400">
+                  No single weight or score change within range overturns {result.leader}.
+              </p>
+          )}
+      </div>
+    </div>
+  );
+};
+
+export default SensitivityView;
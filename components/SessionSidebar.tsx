@@ -0,0 +1,250 @@
+import React, { useRef, useState } from 'react';
+import { Plus, Copy, Trash2, Edit2, Check, X, MessageSquare, Download, Upload } from 'lucide-react';
+import { useSessions } from '../contexts/SessionContext';
+import { DecisionSession } from '../types';
+import { getActivePath } from '../utils/chatTree';
+import { applyBundleSettings, createBundle, parseBundle, serializeBundle } from '../services/sessionBundle';
+import { downloadText, toFilename } from '../utils/download';
+
+interface SessionSidebarProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Switching is blocked while a reply is streaming into the active session
+  isBusy?: boolean;
+  // An imported bundle changed the provider / analysis mode settings
+  onSettingsImported?: () => void;
+}
+
+const formatUpdatedAt = (timestamp: number): string => {
+  const diffMinutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (diffMinutes < 1) return 'Just now';
+  if (diffMinutes < 60) return `${diffMinutes}m ago`;
+  const diffHours = Math.floor(diffMinutes / 60);
+  if (diffHours < 24) return `${diffHours}h ago`;
+  return new Date(timestamp).toLocaleDateString();
+};
+
+const SessionRow: React.FC<{
+  session: DecisionSession;
+  isActive: boolean;
+  isBusy?: boolean;
+  onSelect: () => void;
+  onRename: (name: string) => void;
+  onDuplicate: () => void;
+  onExport: () => void;
+  onDelete: () => void;
+}> = ({ session, isActive, isBusy, onSelect, onRename, onDuplicate, onExport, onDelete }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [editName, setEditName] = useState(session.name);
+
+  const startEdit = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setEditName(session.name);
+    setIsEditing(true);
+  };
+
+  const saveEdit = () => {
+    onRename(editName);
+    setIsEditing(false);
+  };
+
+  return (
+    <div
+      onClick={() => !isEditing && !isBusy && onSelect()}
+      className={`group p-3 transition-all duration-200 ${isBusy && !isActive ? 'cursor-not-allowed opacity-60' : 'cursor-pointer'}`}
+      style={{
+        background: isActive ? 'var(--bg-base)' : 'var(--bg-surface)',
+        borderRadius: 'var(--radius-md)',
+        boxShadow: isActive ? 'var(--shadow-neu-inset)' : 'var(--shadow-neu-subtle)',
+      }}
+    >
+      {isEditing ? (
+        <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+          <input
+            type="text"
+            value={editName}
+            onChange={(e) => setEditName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') saveEdit();
+              if (e.key === 'Escape') setIsEditing(false);
+            }}
+            className="neu-input flex-1 text-sm"
+            style={{ borderRadius: 'var(--radius-sm)', padding: '6px 10px' }}
+            autoFocus
+          />
+          <button onClick={saveEdit} className="p-1" style={{ color: 'var(--text-primary)' }} title="Save">
+            <Check size={14} />
+          </button>
+          <button onClick={() => setIsEditing(false)} className="p-1" style={{ color: 'var(--text-tertiary)' }} title="Cancel">
+            <X size={14} />
+          </button>
+        </div>
+      ) : (
+        <div className="flex items-start gap-2">
+          <div className="flex-1 min-w-0">
+            <p
+              className="text-sm font-semibold truncate"
+              style={{ color: isActive ? 'var(--text-primary)' : 'var(--text-secondary)' }}
+            >
+              {session.name}
+            </p>
+            <p className="text-[10px] mt-1 flex items-center gap-1" style={{ color: 'var(--text-muted)' }}>
+              <MessageSquare size={10} /> {getActivePath(session.chat).length} · {formatUpdatedAt(session.updatedAt)}
+            </p>
+          </div>
+          <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
+            <button onClick={startEdit} className="p-1" style={{ color: 'var(--text-tertiary)' }} title="Rename">
+              <Edit2 size={12} />
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); onDuplicate(); }}
+              disabled={isBusy}
+              className="p-1 disabled:opacity-40"
+              style={{ color: 'var(--text-tertiary)' }}
+              title="Duplicate"
+            >
+              <Copy size={12} />
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); onExport(); }}
+              className="p-1"
+              style={{ color: 'var(--text-tertiary)' }}
+              title="Export as file"
+            >
+              <Download size={12} />
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); onDelete(); }}
+              disabled={isBusy && isActive}
+              className="p-1 disabled:opacity-40"
+              style={{ color: 'var(--text-tertiary)' }}
+              title="Delete"
+            >
+              <Trash2 size={12} />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const SessionSidebar: React.FC<SessionSidebarProps> = ({ isOpen, onClose, isBusy, onSettingsImported }) => {
+  const {
+    sessions,
+    activeSession,
+    createSession,
+    switchSession,
+    renameSession,
+    duplicateSession,
+    deleteSession,
+    importSession
+  } = useSessions();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const handleExport = (session: DecisionSession) => {
+    downloadText(serializeBundle(createBundle(session)), `${toFilename(session.name)}.kompass.json`, 'application/json');
+  };
+
+  const handleImport = async (file: File) => {
+    setImportError(null);
+    try {
+      const { bundle, dropped } = parseBundle(await file.text());
+      importSession(bundle.session);
+      applyBundleSettings(bundle.settings);
+      onSettingsImported?.();
+      onClose();
+      if (dropped.length) {
+        window.alert(`Imported without the ${dropped.join(', ')} data, which was unusable. Run ANALYZE to rebuild it.`);
+      }
+    } catch (e: any) {
+      setImportError(e?.message || 'The file could not be imported.');
+    }
+  };
+
+  const sortedSessions = [...sessions].sort((a, b) => b.updatedAt - a.updatedAt);
+
+  const handleDelete = (session: DecisionSession) => {
+    if (window.confirm(`Delete "${session.name}"? This cannot be undone.`)) {
+      deleteSession(session.id);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex">
+      {/* Panel */}
+      <aside
+        className="relative w-80 max-w-[85vw] h-full m-4 mr-0 p-4 flex flex-col gap-4 neu-panel animate-fade-in"
+        style={{ borderRadius: 'var(--radius-xl)', height: 'calc(100% - 2rem)' }}
+      >
+        <div className="flex items-center justify-between">
+          <h2
+            className="text-xs font-semibold uppercase tracking-wider"
+            style={{ color: 'var(--text-tertiary)' }}
+          >
+            Decisions
+          </h2>
+          <button onClick={onClose} className="p-1" style={{ color: 'var(--text-tertiary)' }} title="Close">
+            <X size={16} />
+          </button>
+        </div>
+
+        <button
+          onClick={() => { createSession(); onClose(); }}
+          disabled={isBusy}
+          className="neu-button flex items-center justify-center gap-2 text-xs font-semibold uppercase tracking-wider disabled:opacity-50 disabled:cursor-not-allowed"
+          style={{ borderRadius: 'var(--radius-md)' }}
+        >
+          <Plus size={14} /> New Decision
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isBusy}
+          className="neu-button flex items-center justify-center gap-2 text-xs font-semibold uppercase tracking-wider disabled:opacity-50 disabled:cursor-not-allowed"
+          style={{ borderRadius: 'var(--radius-md)' }}
+          title="Open a decision exported as a .kompass.json file"
+        >
+          <Upload size={14} /> Import
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = ''; // Allow picking the same file again
+            if (file) handleImport(file);
+          }}
+        />
+        {importError && (
+          <p className="text-[11px] -mt-2" style={{ color: 'var(--text-secondary)' }}>{importError}</p>
+        )}
+
+        <div className="flex-1 overflow-y-auto space-y-2 p-1 scrollbar-hide">
+          {sortedSessions.map(session => (
+            <SessionRow
+              key={session.id}
+              session={session}
+              isActive={session.id === activeSession.id}
+              isBusy={isBusy}
+              onSelect={() => { switchSession(session.id); onClose(); }}
+              onRename={(name) => renameSession(session.id, name)}
+              onDuplicate={() => duplicateSession(session.id)}
+              onExport={() => handleExport(session)}
+              onDelete={() => handleDelete(session)}
+            />
+          ))}
+        </div>
+      </aside>
+
+      {/* Backdrop */}
+      <div className="flex-1" style={{ background: 'rgba(0, 0, 0, 0.4)' }} onClick={onClose} />
+    </div>
+  );
+};
+
+export default SessionSidebar;
@@ -0,0 +1,124 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Share2, Copy, Check, Loader2, AlertCircle } from 'lucide-react';
+import { DecisionSession } from '../types';
+import { ShareLink, createShareLink } from '../services/shareLink';
+
+interface ShareButtonProps {
+  session: DecisionSession;
+}
+
+const ShareButton: React.FC<ShareButtonProps> = ({ session }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [link, setLink] = useState<ShareLink | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const copy = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+    } catch {
+      // Clipboard access denied (e.g. insecure origin); the link is still shown to copy by hand
+      setCopied(false);
+    }
+  };
+
+  // A fresh link each time, so it reflects the decision as it is now
+  const handleShare = async () => {
+    if (isOpen) {
+      setIsOpen(false);
+      return;
+    }
+    setIsOpen(true);
+    setIsCreating(true);
+    setLink(null);
+    setCopied(false);
+    setError(null);
+    try {
+      const created = await createShareLink(session);
+      setLink(created);
+      await copy(created.url);
+    } catch (e: any) {
+      setError(e?.message || 'The share link could not be created.');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={handleShare}
+        className="neu-button p-2.5 transition-all duration-200"
+        style={{
+          color: 'var(--text-tertiary)',
+          borderRadius: 'var(--radius-md)',
+        }}
+        title="Share a read-only link"
+      >
+        <Share2 size={18} />
+      </button>
+
+      {isOpen && (
+        <div
+          className="absolute right-0 top-full mt-2 z-50 w-80 p-3 neu-panel animate-fade-in space-y-2"
+          style={{ borderRadius: 'var(--radius-lg)' }}
+        >
+          <p className="text-xs font-semibold" style={{ color: 'var(--text-primary)' }}>Read-only link</p>
+          {isCreating && (
+            <p className="text-[11px] flex items-center gap-2" style={{ color: 'var(--text-tertiary)' }}>
+              <Loader2 size={12} className="animate-spin" /> Preparing link...
+            </p>
+          )}
+          {error && (
+            <p className="text-[11px] flex items-center gap-2" style={{ color: 'var(--text-secondary)' }}>
+              <AlertCircle size={12} /> {error}
+            </p>
+          )}
+          {link && (
+            <>
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  readOnly
+                  value={link.url}
+                  onFocus={(e) => e.target.select()}
+                  className="neu-input flex-1 min-w-0 text-[11px]"
+                  style={{ borderRadius: 'var(--radius-sm)', padding: '6px 10px' }}
+                />
+                <button
+                  onClick={() => copy(link.url)}
+                  className="p-1.5"
+                  style={{ color: copied ? 'var(--text-primary)' : 'var(--text-tertiary)' }}
+                  title="Copy link"
+                >
+                  {copied ? <Check size={14} /> : <Copy size={14} />}
+                </button>
+              </div>
+              <p className="text-[10px]" style={{ color: 'var(--text-tertiary)' }}>
+                {copied ? 'Copied to clipboard. ' : ''}
+                {link.isLocalSnapshot
+                  ? 'This decision is too large for a link, so it was saved as a snapshot that only opens in this browser. Sharing it again updates the same snapshot.'
+                  : 'Anyone with the link can view this decision as it is now; later changes are not included.'}
+              </p>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ShareButton;
@@ -0,0 +1,61 @@
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, Loader2 } from 'lucide-react';
+import { DecisionSession } from '../types';
+import { SessionProvider } from '../contexts/SessionContext';
+import { openShareToken } from '../services/shareLink';
+import App from '../App';
+
+interface SharedDecisionProps {
+  token: string;
+}
+
+// Opens a /share/ link: decodes the decision, then shows it in the normal layout in read-only mode
+const SharedDecision: React.FC<SharedDecisionProps> = ({ token }) => {
+  const [session, setSession] = useState<DecisionSession | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    openShareToken(token)
+      .then(shared => { if (!cancelled) setSession(shared); })
+      .catch((e: any) => { if (!cancelled) setError(e?.message || 'This share link could not be opened.'); });
+    return () => { cancelled = true; };
+  }, [token]);
+
+  if (session) {
+    return (
+      <SessionProvider sharedSession={session}>
+        <App readOnly />
+      </SessionProvider>
+    );
+  }
+
+  return (
+    <div
+      className="min-h-screen flex items-center justify-center p-8"
+      style={{ background: 'var(--bg-base)', color: 'var(--text-secondary)' }}
+    >
+      <div className="neu-panel max-w-md w-full p-8 text-center space-y-4" style={{ borderRadius: 'var(--radius-xl)' }}>
+        {error ? (
+          <>
+            <AlertCircle size={28} className="mx-auto" style={{ color: 'var(--text-tertiary)' }} />
+            <p className="text-sm">{error}</p>
+            <a
+              href="/"
+              className="neu-button inline-block px-4 py-2 text-xs font-semibold uppercase tracking-wider"
+              style={{ borderRadius: 'var(--radius-md)', color: 'var(--text-primary)' }}
+            >
+              Open Kompass
+            </a>
+          </>
+        ) : (
+          <p className="text-sm flex items-center justify-center gap-2">
+            <Loader2 size={16} className="animate-spin" /> Opening shared decision...
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SharedDecision;
@@ -0,0 +1,237 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts';
+import { Dices, Loader2 } from 'lucide-react';
+import { CostBenefitAnalysis, DecisionTreeData } from '../types';
+import { SimulationResult, SimulationSource } from '../utils/monteCarlo';
+import { runSimulation } from '../services/simulation';
+import { isAbortError } from '../services/aiService';
+import ViewExportButton from './ViewExportButton';
+
+interface SimulationViewProps {
+  tree: DecisionTreeData | null;
+  costBenefit: CostBenefitAnalysis | null;
+}
+
+const ITERATION_CHOICES = [1000, 5000, 20000];
+// Waits for slider/typing to settle before starting a new run
+const RUN_DEBOUNCE_MS = 250;
+
+// Grayscale / High Contrast Palette
+const colors = ["#ffffff", "#999999", "#555555", "#aaaaaa", "#cccccc"];
+
+const HistogramTooltip = ({ active, payload, label }: any) => {
+  if (active && payload && payload.length) {
+    return (
+      <div className="bg-black border border-white/20 p-4 rounded shadow-2xl text-xs">
+        <p className="font-bold text-white mb-2 uppercase tracking-wide border-b border-neutral-800 pb-2">{label}</p>
+        {payload.map((entry: any, index: number) => (
+          <p key={index} style={{ color: entry.fill }} className="mb-1 font-mono">
+            {entry.name}: {entry.value}%
+          </p>
+        ))}
+      </div>
+    );
+  }
+  return null;
+};
+
+const SimulationView: React.FC<SimulationViewProps> = ({ tree, costBenefit }) => {
+  const [source, setSource] = useState<SimulationSource>(tree ? 'tree' : 'costbenefit');
+  const [seed, setSeed] = useState(42);
+  const [iterations, setIterations] = useState(5000);
+  const [spread, setSpread] = useState(0.2);
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const chartRef = useRef<HTMLDivElement>(null);
+
+  const hasSource = source === 'tree' ? Boolean(tree?.root) : Boolean(costBenefit?.options.length);
+
+  // Re-runs whenever the inputs change; a newer run aborts (terminates) the previous worker
+  useEffect(() => {
+    if (!hasSource) return;
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      setIsRunning(true);
+      setError(null);
+      runSimulation({ source, tree, costBenefit, iterations, seed, defaultSpread: spread }, controller.signal)
+        .then(setResult)
+        .catch(err => {
+          if (!isAbortError(err)) setError(err.message);
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) setIsRunning(false);
+        });
+    }, RUN_DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [source, tree, costBenefit, iterations, seed, spread, hasSource]);
+
+  if (!tree && !costBenefit) {
+    return (
+      <div className="flex items-center justify-center h-full text-neutral-500">
+        <p className="uppercase tracking-widest text-xs">Waiting for Analysis...</p>
+      </div>
+    );
+  }
+
+  const chartData = result?.bins.map((bin, i) => {
+    const point: any = { name: bin.start.toFixed(1) };
+    result.options.forEach(option => {
+      point[option.optionName] = Math.round(option.histogram[i] * 1000) / 10;
+    });
+    return point;
+  }) || [];
+
+  const controlClass = 'bg-neutral-900 border border-neutral-700 rounded px-2 py-1 text-xs text-white outline-none focus:border-neutral-500 font-mono';
+
+  return (
+    <div className="flex flex-col h-full w-full bg-black p-6 overflow-y-auto custom-scrollbar">
+      <div className="mb-6 border-l-2 border-white pl-4 flex justify-between items-end gap-4 flex-wrap">
+          <div>
+              <h3 className="text-white font-bold text-sm uppercase tracking-widest">Monte Carlo</h3>
+              <p className="text-neutral-500 text-xs mt-1">
+                  {source === 'tree' ? 'Simulated Outcome Value (0-10)' : 'Simulated Net Benefit'}
+              </p>
+          </div>
+          <div className="flex items-center gap-3 text-[10px] text-neutral-500 uppercase tracking-wider flex-wrap">
+              <select value={source} onChange={(e) => setSource(e.target.value as SimulationSource)} className={controlClass}>
+                  <option value="tree" disabled={!tree}>Decision tree</option>
+                  <option value="costbenefit" disabled={!costBenefit}>Cost/benefit</option>
+              </select>
+              <label className="flex items-center gap-1">
+                  Runs
+                  <select value={iterations} onChange={(e) => setIterations(Number(e.target.value))} className={controlClass}>
+                      {ITERATION_CHOICES.map(n => <option key={n} value={n}>{n.toLocaleString()}</option>)}
+                  </select>
+              </label>
+              <label className="flex items-center gap-1" title="Uncertainty applied to values without an explicit range">
+                  Spread ±{Math.round(spread * 100)}%
+                  <input
+                      type="range"
+                      min={0}
+                      max={0.5}
+                      step={0.05}
+                      value={spread}
+                      onChange={(e) => setSpread(Number(e.target.value))}
+                      className="w-20 accent-white cursor-pointer"
+                  />
+              </label>
+              <label className="flex items-center gap-1">
+                  Seed
+                  <input
+                      type="number"
+                      value={seed}
+                      onChange={(e) => setSeed(Math.floor(Number(e.target.value)) || 0)}
+                      className={`${controlClass} w-20`}
+                  />
+              </label>
+              {result && (
+                  <ViewExportButton
+                      getSvg={() => chartRef.current?.querySelector<SVGSVGElement>('svg.recharts-surface') || null}
+                      title="Monte Carlo Simulation"
+                      subtitle={`${source === 'tree' ? 'Outcome value (0-10)' : 'Net benefit'} · share of ${result.iterations.toLocaleString()} runs · seed ${result.seed}`}
+                      legend={result.options.map((option, i) => ({ label: option.optionName, color: colors[i % colors.length] }))}
+                  />
+              )}
+              <button
+                  onClick={() => setSeed(Math.floor(Math.random() * 100000))}
+                  className="flex items-center gap-1 px-2 py-1 rounded border border-neutral-700 hover:text-white hover:border-neutral-500"
+                  title="New random seed"
+              >
+                  {isRunning ? <Loader2 size={12} className="animate-spin" /> : <Dices size={12} />} Reroll
+              </button>
+          </div>
+      </div>
+
+      {!hasSource && (
+          <p className="text-xs text-neutral-500">Run the analysis to generate a {source === 'tree' ? 'decision tree' : 'cost/benefit analysis'} first.</p>
+      )}
+      {error && <p className="text-xs text-rose-400 mb-4">{error}</p>}
+
+      {hasSource && result && (
+          <>
+              <div ref={chartRef} className="w-full h-64 shrink-0">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={chartData} margin={{ top: 10, right: 30, left: 0, bottom: 5 }} barGap={0}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#333" vertical={false} />
+                    <XAxis
+                        dataKey="name"
+                        stroke="#666"
+                        tick={{fill: '#888', fontSize: 10, fontFamily: 'monospace'}}
+                        tickLine={{stroke: '#666'}}
+                        axisLine={{stroke: '#444'}}
+                    />
+                    <YAxis
+                        stroke="#666"
+                        tick={{fill: '#888', fontSize: 10, fontFamily: 'monospace'}}
+                        tickLine={{stroke: '#666'}}
+                        axisLine={{stroke: '#444'}}
+                        unit="%"
+                    />
+                    <Tooltip content={<HistogramTooltip />} cursor={{fill: '#ffffff10'}} />
+                    <Legend wrapperStyle={{paddingTop: '20px', fontFamily: 'monospace', fontSize: '10px'}} />
+                    {result.options.map((option, index) => (
+                      <Bar
+                        key={option.optionName}
+                        dataKey={option.optionName}
+                        fill={colors[index % colors.length]}
+                        fillOpacity={0.8}
+                        isAnimationActive={false}
+                      />
+                    ))}
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+
+              <div className="mt-6 border border-neutral-800 rounded-lg overflow-hidden">
+                  <table className="w-full text-left border-collapse text-xs">
+                      <thead className="bg-neutral-900">
+                          <tr className="text-neutral-400 uppercase tracking-wider text-[10px]">
+                              <th className="p-3 font-bold">Option</th>
+                              <th className="p-3 font-bold text-right">P10</th>
+                              <th className="p-3 font-bold text-right">P50</th>
+                              <th className="p-3 font-bold text-right">P90</th>
+                              <th className="p-3 font-bold text-right">Mean</th>
+                              <th className="p-3 font-bold text-right">Wins</th>
+                          </tr>
+                      </thead>
+                      <tbody className="divide-y divide-neutral-800 font-mono">
+                          {result.options.map((option, index) => (
+                              <tr key={option.optionName}>
+                                  <td className="p-3 font-sans font-bold text-white">
+                                      <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: colors[index % colors.length] }} />
+                                      {option.optionName}
+                                  </td>
+                                  <td className="p-3 text-right text-neutral-400">{option.p10.toFixed(1)}</td>
+                                  <td className="p-3 text-right text-white">{option.p50.toFixed(1)}</td>
+                                  <td className="p-3 text-right text-neutral-400">{option.p90.toFixed(1)}</td>
+                                  <td className="p-3 text-right text-neutral-400">{option.mean.toFixed(2)}</td>
+                                  <td className="p-3 text-right text-white font-bold">{Math.round(option.winProbability * 100)}%</td>
+                              </tr>
+                          ))}
+                      </tbody>
+                  </table>
+              </div>
+
+              <p className="mt-4 text-[10px] text-neutral-600 font-mono">
+                  {result.iterations.toLocaleString()} RUNS · SEED {result.seed} · "WINS" = SHARE OF RUNS WHERE THE OPTION CAME OUT ON TOP
+              </p>
+          </>
+      )}
+    </div>
+  );
+};
+
+export default SimulationView;
@@ -0,0 +1,90 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ImageDown, Loader2 } from 'lucide-react';
+import { ExportLegendItem, buildStandaloneSvg, svgToPngBlob } from '../utils/svgExport';
+import { downloadBlob, downloadText, toFilename } from '../utils/download';
+
+interface ViewExportButtonProps {
+  // The live drawing; read when the user exports so it reflects the current zoom and edits
+  getSvg: () => SVGSVGElement | null;
+  title: string;
+  subtitle?: string;
+  legend?: ExportLegendItem[];
+  fit?: 'content' | 'viewport';
+  // 'glass' matches the themed mind map controls, 'dark' the black analysis views
+  variant?: 'glass' | 'dark';
+}
+
+const PNG_SCALES = [1, 2, 4];
+
+const ViewExportButton: React.FC<ViewExportButtonProps> = ({ getSvg, title, subtitle, legend, fit = 'viewport', variant = 'dark' }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const handleExport = async (format: 'svg' | number) => {
+    setIsOpen(false);
+    setError(null);
+    const svg = getSvg();
+    if (!svg) return;
+    const filename = toFilename(title, 'view');
+    try {
+      setIsExporting(true);
+      const standalone = buildStandaloneSvg(svg, { title, subtitle, legend, fit });
+      if (format === 'svg') {
+        downloadText(standalone.markup, `${filename}.svg`, 'image/svg+xml');
+      } else {
+        downloadBlob(await svgToPngBlob(standalone, format), `${filename}${format > 1 ? `@${format}x` : ''}.png`);
+      }
+    } catch (e: any) {
+      setError(e?.message || 'Export failed.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const isGlass = variant === 'glass';
+  const panelClass = isGlass
+    ? 'backdrop-blur-xl rounded-xl'
+    : 'bg-black/90 backdrop-blur border border-neutral-800 rounded-lg';
+  const panelStyle: React.CSSProperties = isGlass
+    ? { background: 'var(--bg-glass)', border: '1px solid var(--glass-border)', color: 'var(--text-tertiary)' }
+    : {};
+  const itemClass = isGlass
+    ? 'w-full text-left px-3 py-1.5 rounded-lg text-[10px] uppercase tracking-wider font-semibold transition-colors hover:bg-[var(--bg-glass)]'
+    : 'w-full text-left px-3 py-1.5 rounded text-[10px] uppercase tracking-wider font-bold text-neutral-400 hover:text-white hover:bg-neutral-800';
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={isExporting}
+        className={`${panelClass} px-3 py-2 text-[10px] flex items-center gap-2 uppercase tracking-wider ${isGlass ? '' : 'text-neutral-500 hover:text-white'}`}
+        style={panelStyle}
+        title="Export as SVG or PNG"
+      >
+        {isExporting ? <Loader2 size={12} className="animate-spin" /> : <ImageDown size={12} />} Export
+      </button>
+      {isOpen && (
+        <div className={`absolute left-0 top-full mt-1 z-20 p-1 min-w-[120px] ${panelClass}`} style={panelStyle}>
+          <button onClick={() => handleExport('svg')} className={itemClass}>SVG</button>
+          {PNG_SCALES.map(scale => (
+            <button key={scale} onClick={() => handleExport(scale)} className={itemClass}>PNG {scale}×</button>
+          ))}
+        </div>
+      )}
+      {error && <p className="mt-1 text-[10px] text-rose-400 max-w-[200px]">{error}</p>}
+    </div>
+  );
+};
+
+export default ViewExportButton;
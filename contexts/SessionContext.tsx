@@ -0,0 +1,168 @@
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import { DecisionSession } from '../types';
+import {
+  createEmptySession,
+  cloneSession,
+  loadSessions,
+  saveSessions,
+  loadActiveSessionId,
+  saveActiveSessionId
+} from '../services/sessionStore';
+import { createId } from '../utils/id';
+
+type SessionUpdater = (session: DecisionSession) => DecisionSession;
+
+interface SessionContextType {
+  sessions: DecisionSession[];
+  activeSession: DecisionSession;
+  createSession: (name?: string) => DecisionSession;
+  switchSession: (id: string) => void;
+  renameSession: (id: string, name: string) => void;
+  duplicateSession: (id: string) => void;
+  deleteSession: (id: string) => void;
+  // Adds a session from a bundle and opens it; returns the ID it was stored under
+  importSession: (session: DecisionSession) => string;
+  // Targets a session by ID so in-flight work keeps writing to the session that started it
+  updateSession: (id: string, updater: SessionUpdater) => void;
+  // The last save to storage failed (quota full); changes only live in this tab until one succeeds
+  saveFailed: boolean;
+}
+
+const SessionContext = createContext<SessionContextType | undefined>(undefined);
+
+// Streaming updates the active session on every chunk, so writes to storage are batched
+const SAVE_DELAY_MS = 400;
+
+const initialState = (preferredId?: string | null): { sessions: DecisionSession[]; activeId: string } => {
+  const sessions = loadSessions();
+  if (sessions.length === 0) {
+    const session = createEmptySession();
+    return { sessions: [session], activeId: session.id };
+  }
+  // A session named in the URL wins over the one that was active last time
+  const activeId = [preferredId, loadActiveSessionId()].find(id => sessions.some(s => s.id === id)) || sessions[0].id;
+  return { sessions, activeId };
+};
+
+interface SessionProviderProps {
+  children: ReactNode;
+  // Opens a single session in memory (read-only share links): nothing is loaded from or written to storage
+  sharedSession?: DecisionSession;
+  // Session to open first, e.g. from a deep link; ignored if it no longer exists
+  initialSessionId?: string | null;
+}
+
+export const SessionProvider: React.FC<SessionProviderProps> = ({ children, sharedSession, initialSessionId }) => {
+  const [state] = useState(() => sharedSession ? { sessions: [sharedSession], activeId: sharedSession.id } : initialState(initialSessionId));
+  const [sessions, setSessions] = useState<DecisionSession[]>(state.sessions);
+  const [activeId, setActiveId] = useState<string>(state.activeId);
+  const [saveFailed, setSaveFailed] = useState(false);
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const sessionsRef = useRef(sessions);
+  sessionsRef.current = sessions;
+
+  // Persist sessions (debounced)
+  useEffect(() => {
+    if (sharedSession) return;
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = setTimeout(() => setSaveFailed(!saveSessions(sessions)), SAVE_DELAY_MS);
+    return () => {
+      if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    };
+  }, [sessions]);
+
+  // Flush pending writes when the tab closes
+  useEffect(() => {
+    if (sharedSession) return;
+    const flush = () => saveSessions(sessionsRef.current);
+    window.addEventListener('beforeunload', flush);
+    return () => window.removeEventListener('beforeunload', flush);
+  }, []);
+
+  useEffect(() => {
+    if (!sharedSession) saveActiveSessionId(activeId);
+  }, [activeId]);
+
+  const activeSession = sessions.find(s => s.id === activeId) || sessions[0];
+
+  const createSession = (name?: string) => {
+    const session = createEmptySession(name);
+    setSessions(prev => [session, ...prev]);
+    setActiveId(session.id);
+    return session;
+  };
+
+  const switchSession = (id: string) => {
+    if (sessions.some(s => s.id === id)) {
+      setActiveId(id);
+    }
+  };
+
+  const updateSession = (id: string, updater: SessionUpdater) => {
+    setSessions(prev => prev.map(s => s.id === id ? { ...updater(s), updatedAt: Date.now() } : s));
+  };
+
+  const renameSession = (id: string, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    updateSession(id, s => ({ ...s, name: trimmed }));
+  };
+
+  const duplicateSession = (id: string) => {
+    const source = sessions.find(s => s.id === id);
+    if (!source) return;
+    const copy = cloneSession(source, `${source.name} (copy)`);
+    setSessions(prev => [copy, ...prev]);
+    setActiveId(copy.id);
+  };
+
+  const importSession = (session: DecisionSession) => {
+    // Importing the same bundle twice keeps both copies
+    const imported = sessions.some(s => s.id === session.id) ? { ...session, id: createId() } : session;
+    setSessions(prev => [imported, ...prev]);
+    setActiveId(imported.id);
+    return imported.id;
+  };
+
+  const deleteSession = (id: string) => {
+    const remaining = sessions.filter(s => s.id !== id);
+    // Always keep at least one session around
+    if (remaining.length === 0) {
+      const session = createEmptySession();
+      setSessions([session]);
+      setActiveId(session.id);
+      return;
+    }
+    setSessions(remaining);
+    if (id === activeId) {
+      setActiveId(remaining[0].id);
+    }
+  };
+
+  return (
+    <SessionContext.Provider value={{
+      sessions,
+      activeSession,
+      createSession,
+      switchSession,
+      renameSession,
+      duplicateSession,
+      deleteSession,
+      importSession,
+      updateSession,
+      saveFailed
+    }}>
+      {children}
+    </SessionContext.Provider>
+  );
+};
+
+export const useSessions = (): SessionContextType => {
+  const context = useContext(SessionContext);
+  if (!context) {
+    throw new Error('useSessions must be used within a SessionProvider');
+  }
+  return context;
+};
+
+export default SessionContext;
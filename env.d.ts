@@ -1,10 +1,17 @@
 /// <reference types="vite/client" />
 
 interface ImportMetaEnv {
+  // Provider used when the user has not picked one: deepseek | zhipu | openai-compatible | local
+  readonly VITE_LLM_PROVIDER?: string;
+  readonly VITE_DEEPSEEK_API_KEY?: string;
+  readonly VITE_DEEPSEEK_MODEL?: string;
   readonly VITE_ZAI_API_KEY: string;
   readonly VITE_ZAI_MODEL?: string;
   readonly VITE_ZAI_API_URL?: string;
   readonly VITE_ZAI_THINKING?: string;
+  readonly VITE_OPENAI_API_URL?: string;
+  readonly VITE_OPENAI_API_KEY?: string;
+  readonly VITE_OPENAI_MODEL?: string;
 }
 
 interface ImportMeta {
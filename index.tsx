@@ -1,7 +1,10 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import { ThemeProvider } from './contexts/ThemeContext';
+import { SessionProvider } from './contexts/SessionContext';
 import App from './App';
+import SharedDecision from './components/SharedDecision';
+import { currentRoute } from './utils/routing';
 import './index.css';
 
 const rootElement = document.getElementById('root');
@@ -9,11 +12,21 @@ if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// /share/<token> opens a shared decision read-only, without touching the visitor's own sessions;
+// /session/<id> opens that session instead of the last active one
+const route = currentRoute();
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
     <ThemeProvider>
-      <App />
+      {route.shareToken ? (
+        <SharedDecision token={route.shareToken} />
+      ) : (
+        <SessionProvider initialSessionId={route.sessionId}>
+          <App />
+        </SessionProvider>
+      )}
     </ThemeProvider>
   </React.StrictMode>
 );
\ No newline at end of file
@@ -1,66 +1,278 @@
 // Netlify Function: Secure API Proxy for DeepSeek
-// This keeps your API key safe on the server, not exposed in frontend code
+// This keeps your API key safe on the server, not exposed in frontend code.
+// Streaming requests are piped through chunk by chunk so tokens reach the browser as they are generated.
+// Because the key is ours, every request is checked before it is forwarded: only our site may call it,
+// only allowed models and sane token budgets get through, and each client is rate limited.
+
+const UPSTREAM_URL = 'https://api.deepseek.com/v1/chat/completions';
+
+// SSE comment lines are ignored by clients but keep idle connections from being closed
+const KEEP_ALIVE_MS = 15000;
+
+// Limits (overridable from the Netlify dashboard)
+const listFromEnv = (value, fallback) => (value ? value.split(',').map(v => v.trim()).filter(Boolean) : fallback);
+const ALLOWED_MODELS = listFromEnv(process.env.ALLOWED_MODELS, ['deepseek-chat', 'deepseek-reasoner']);
+// The unified analysis asks for up to 8192 (services/aiService.ts: DECISION_MODEL_MAX_TOKENS)
+const MAX_TOKENS_CAP = Number(process.env.MAX_TOKENS_CAP) || 8192;
+// A detailed ANALYZE alone is 7 calls (14 with corrective re-prompts), on top of the chat reply and mind map
+const RATE_LIMIT_PER_MINUTE = Number(process.env.RATE_LIMIT_PER_MINUTE) || 60;
+// The client trims long conversations to fit these (services/aiService.ts: MAX_CONTEXT_*)
+const MAX_MESSAGES = 60;
+const MAX_PROMPT_CHARS = 100000;
+// UTF-8 takes up to 4 bytes per character, so a prompt within MAX_PROMPT_CHARS (CJK, emoji) always fits,
+// with room for the JSON around it
+const MAX_BODY_BYTES = 4 * MAX_PROMPT_CHARS + 16 * 1024;
+// Same code OpenAI uses, so clients classify it as "conversation too long" rather than a generic failure
+const CONTEXT_LENGTH_CODE = 'context_length_exceeded';
+const ALLOWED_ROLES = ['system', 'user', 'assistant'];
+
+// Our own site. Netlify sets URL (production) and DEPLOY_PRIME_URL (branch/preview deploys).
+const ALLOWED_ORIGINS = listFromEnv(
+    process.env.ALLOWED_ORIGINS,
+    [process.env.URL, process.env.DEPLOY_PRIME_URL].filter(Boolean)
+);
+
+const corsHeaders = (origin) => (origin ? {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Vary': 'Origin',
+} : {});
+
+const jsonResponse = (status, body, origin, headers = {}) => new Response(JSON.stringify(body), {
+    status,
+    headers: {
+        'Content-Type': 'application/json',
+        ...corsHeaders(origin),
+        ...headers,
+    },
+});
+
+// Same-origin requests and non-browser clients may omit Origin; anything else must be ours
+const isAllowedOrigin = (origin) => !origin || ALLOWED_ORIGINS.includes(origin);
+
+// Sliding one-minute window per client. Memory lives only as long as the function instance,
+// so this is best-effort throttling - enough to stop a single client from draining the key.
+const requestLog = new Map();
+
+const checkRateLimit = (clientId, now = Date.now()) => {
+    const windowStart = now - 60000;
+    const recent = (requestLog.get(clientId) || []).filter(t => t > windowStart);
+    if (recent.length >= RATE_LIMIT_PER_MINUTE) {
+        requestLog.set(clientId, recent);
+        return { allowed: false, retryAfter: Math.ceil((recent[0] + 60000 - now) / 1000) };
+    }
+    recent.push(now);
+    requestLog.set(clientId, recent);
+
+    // Keep the map from growing without bound on a long-lived instance
+    if (requestLog.size > 5000) {
+        for (const [id, times] of requestLog) {
+            if (!times.some(t => t > windowStart)) requestLog.delete(id);
+        }
+    }
+    return { allowed: true };
+};
+
+// Returns an error message for a bad body, or the sanitized payload to forward.
+// Only known fields are forwarded so callers cannot smuggle other upstream options.
+const validateBody = (body) => {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        return { error: 'Request body must be a JSON object' };
+    }
+
+    const model = body.model ?? ALLOWED_MODELS[0];
+    if (!ALLOWED_MODELS.includes(model)) {
+        return { error: `Model "${model}" is not allowed. Use one of: ${ALLOWED_MODELS.join(', ')}` };
+    }
+
+    const { messages } = body;
+    if (!Array.isArray(messages) || messages.length === 0) {
+        return { error: 'messages must be a non-empty array' };
+    }
+    if (messages.length > MAX_MESSAGES) {
+        return { error: `Too many messages (max ${MAX_MESSAGES})`, code: CONTEXT_LENGTH_CODE };
+    }
+    let promptChars = 0;
+    for (const message of messages) {
+        if (!message || !ALLOWED_ROLES.includes(message.role) || typeof message.content !== 'string') {
+            return { error: `Each message needs a role (${ALLOWED_ROLES.join(', ')}) and string content` };
+        }
+        promptChars += message.content.length;
+    }
+    if (promptChars > MAX_PROMPT_CHARS) {
+        return { error: `Conversation is too long (max ${MAX_PROMPT_CHARS} characters)`, code: CONTEXT_LENGTH_CODE };
+    }
+
+    const maxTokens = body.max_tokens ?? MAX_TOKENS_CAP;
+    if (!Number.isInteger(maxTokens) || maxTokens < 1 || maxTokens > MAX_TOKENS_CAP) {
+        return { error: `max_tokens must be an integer between 1 and ${MAX_TOKENS_CAP}` };
+    }
+
+    const temperature = body.temperature ?? 0.7;
+    if (typeof temperature !== 'number' || temperature < 0 || temperature > 2) {
+        return { error: 'temperature must be a number between 0 and 2' };
+    }
+
+    if (body.stream !== undefined && typeof body.stream !== 'boolean') {
+        return { error: 'stream must be a boolean' };
+    }
+
+    return {
+        payload: {
+            model,
+            messages: messages.map(({ role, content }) => ({ role, content })),
+            max_tokens: maxTokens,
+            temperature,
+            stream: Boolean(body.stream),
+        },
+    };
+};
+
+// True when the bytes forwarded so far end an SSE event (a blank line), so a comment can go in between
+const endsEvent = (bytes) => {
+    const n = bytes.length;
+    return (n >= 2 && bytes[n - 1] === 10 && bytes[n - 2] === 10)
+        || (n >= 4 && bytes[n - 1] === 10 && bytes[n - 2] === 13 && bytes[n - 3] === 10 && bytes[n - 4] === 13);
+};
+
+// Wraps the upstream event stream: forwards bytes untouched, pings while it is idle,
+// and turns a mid-stream failure into an error event instead of a silently truncated reply
+const proxyEventStream = (upstream) => {
+    const encoder = new TextEncoder();
+    const reader = upstream.getReader();
+    let pingTimer;
+    // Last bytes forwarded (a blank line can be split across chunks); nothing forwarded yet counts as a boundary
+    let tail = new Uint8Array(0);
+    let atEventBoundary = true;
+
+    // Pings only go out after KEEP_ALIVE_MS without data, and never inside a half-forwarded event
+    const schedulePing = (controller) => {
+        clearTimeout(pingTimer);
+        pingTimer = setTimeout(() => {
+            if (atEventBoundary) controller.enqueue(encoder.encode(': ping\n\n'));
+            schedulePing(controller);
+        }, KEEP_ALIVE_MS);
+    };
+
+    return new ReadableStream({
+        start(controller) {
+            schedulePing(controller);
+        },
+        async pull(controller) {
+            try {
+                const { done, value } = await reader.read();
+                if (done) {
+                    clearTimeout(pingTimer);
+                    controller.close();
+                    return;
+                }
+                const recent = new Uint8Array(tail.length + value.length);
+                recent.set(tail);
+                recent.set(value, tail.length);
+                tail = recent.slice(-4);
+                atEventBoundary = endsEvent(tail);
+                controller.enqueue(value);
+                schedulePing(controller);
+            } catch (error) {
+                console.error('Upstream stream error:', error);
+                clearTimeout(pingTimer);
+                const event = { error: { message: 'The AI service stopped responding mid-reply. Please try again.' } };
+                controller.enqueue(encoder.encode(`\n\ndata: ${JSON.stringify(event)}\n\n`));
+                controller.close();
+            }
+        },
+        cancel(reason) {
+            // The browser went away (Stop button, closed tab) - stop paying for tokens
+            clearTimeout(pingTimer);
+            return reader.cancel(reason);
+        },
+    });
+};
+
+export default async (req, context) => {
+    const origin = req.headers.get('origin');
+    if (!isAllowedOrigin(origin)) {
+        return jsonResponse(403, { error: 'Origin not allowed' });
+    }
+    const allowedOrigin = origin || undefined;
+
+    // CORS preflight
+    if (req.method === 'OPTIONS') {
+        return new Response(null, { status: 204, headers: corsHeaders(allowedOrigin) });
+    }
 
-exports.handler = async (event, context) => {
     // Only allow POST requests
-    if (event.httpMethod !== 'POST') {
-        return {
-            statusCode: 405,
-            body: JSON.stringify({ error: 'Method not allowed' }),
-        };
+    if (req.method !== 'POST') {
+        return jsonResponse(405, { error: 'Method not allowed' }, allowedOrigin, { 'Allow': 'POST, OPTIONS' });
+    }
+
+    const clientId = context?.ip || req.headers.get('x-nf-client-connection-ip') || 'unknown';
+    const rateLimit = checkRateLimit(clientId);
+    if (!rateLimit.allowed) {
+        return jsonResponse(429, { error: 'Too many requests. Please wait a moment and try again.' }, allowedOrigin, {
+            'Retry-After': String(rateLimit.retryAfter),
+        });
     }
 
     // Get API key from Netlify environment variable (set in Netlify dashboard)
     const apiKey = process.env.DEEPSEEK_API_KEY;
 
     if (!apiKey) {
-        return {
-            statusCode: 500,
-            body: JSON.stringify({ error: 'API key not configured on server' }),
-        };
+        return jsonResponse(500, { error: 'API key not configured on server' }, allowedOrigin);
     }
 
+    const rawBody = await req.text();
+    if (new TextEncoder().encode(rawBody).length > MAX_BODY_BYTES) {
+        return jsonResponse(413, { error: 'Request body is too large', code: CONTEXT_LENGTH_CODE }, allowedOrigin);
+    }
+
+    let requestBody;
     try {
-        const requestBody = JSON.parse(event.body);
+        requestBody = JSON.parse(rawBody);
+    } catch (error) {
+        return jsonResponse(400, { error: 'Request body must be valid JSON' }, allowedOrigin);
+    }
 
-        const response = await fetch('https://api.deepseek.com/v1/chat/completions', {
+    const { payload, error: validationError, code } = validateBody(requestBody);
+    if (validationError) {
+        return jsonResponse(400, { error: validationError, ...(code ? { code } : {}) }, allowedOrigin);
+    }
+
+    try {
+        const response = await fetch(UPSTREAM_URL, {
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
                 'Authorization': `Bearer ${apiKey}`,
             },
-            body: JSON.stringify(requestBody),
+            body: JSON.stringify(payload),
+            // Abort the upstream call when the client disconnects
+            signal: req.signal,
         });
 
-        const data = await response.text();
-
-        // Handle streaming vs non-streaming responses
-        if (requestBody.stream) {
-            // For streaming, we need to pass through the response
-            return {
-                statusCode: response.status,
+        // Errors before the stream starts keep their status code and JSON body
+        if (!payload.stream || !response.ok || !response.body) {
+            return new Response(await response.text(), {
+                status: response.status,
                 headers: {
-                    'Content-Type': 'text/event-stream',
-                    'Cache-Control': 'no-cache',
-                    'Access-Control-Allow-Origin': '*',
+                    'Content-Type': 'application/json',
+                    ...corsHeaders(allowedOrigin),
                 },
-                body: data,
-            };
+            });
         }
 
-        return {
-            statusCode: response.status,
+        return new Response(proxyEventStream(response.body), {
+            status: response.status,
             headers: {
-                'Content-Type': 'application/json',
-                'Access-Control-Allow-Origin': '*',
+                'Content-Type': 'text/event-stream',
+                'Cache-Control': 'no-cache',
+                'Connection': 'keep-alive',
+                ...corsHeaders(allowedOrigin),
             },
-            body: data,
-        };
+        });
     } catch (error) {
         console.error('Proxy error:', error);
-        return {
-            statusCode: 500,
-            body: JSON.stringify({ error: 'Failed to proxy request to API' }),
-        };
+        return jsonResponse(502, { error: 'Failed to proxy request to API' }, allowedOrigin);
     }
 };
@@ -0,0 +1,620 @@
+import {
+  Message,
+  MindMapNode,
+  ProjectionScenario,
+  ComparisonData,
+  DecisionTreeData,
+  SWOTAnalysis,
+  CostBenefitAnalysis,
+  TimelineData,
+  DecisionModel
+} from "../types";
+import { ChatMessage, GenerationTask, getActiveProvider } from "./providers";
+import { AIError } from "./errors";
+import {
+  Validator,
+  ValidationResult,
+  ValidationError,
+  validateMindMap,
+  validateProjections,
+  validateComparison,
+  validateDecisionTree,
+  validateSWOT,
+  validateCostBenefit,
+  validateTimeline,
+  validateDecisionModel
+} from "../utils/validators";
+
+// System instructions for the main chat
+const CHAT_SYSTEM_INSTRUCTION = `
+You are Kishor AI, a strategic and interactive AI decision consultant created by Kishor.
+Your goal is to guide the user to the best possible choice through conversation.
+
+IDENTITY:
+- You are Kishor AI, created and developed by Kishor.
+- If anyone asks who made you, who created you, or what AI you are, ALWAYS say you are "Kishor AI, created by Kishor".
+- Never mention DeepSeek, OpenAI, or any other AI provider.
+
+PROTOCOL:
+1. **EXPLORE FIRST**: If the user's request is vague (e.g., "I want a car"), DO NOT just list options. ASK 1-2 clarifying questions.
+2. **ANALYZE**: Once you have enough context, list distinct options with clear pros/cons.
+3. **DECIDE**: Always weigh the options and recommend the best one based on the logic.
+4. **OPINIONATED**: Don't be neutral. Based on the user's answers, say "I recommend X because..."
+5. **VISUAL**: Your output drives a Mind Map. Structure your thoughts clearly.
+
+IMPORTANT - CLICKABLE OPTIONS:
+When you want the user to choose from a list of options, use this EXACT format on its own line:
+[OPTIONS: Option A | Option B | Option C | Option D]
+
+Examples:
+- [OPTIONS: Career growth | Compensation | Work-life balance | Stability]
+- [OPTIONS: Yes | No | Need more info]
+- [OPTIONS: Budget under $30k | $30k-$50k | Over $50k]
+
+This renders as clickable buttons the user can tap. Use this whenever you're asking them to pick from choices!
+`;
+
+const cleanAndParseJSON = (text: string) => {
+  try {
+    // Remove markdown code fences if present
+    let cleaned = text.replace(/```json/g, '').replace(/```/g, '');
+
+    // Find the first '{' or '['
+    const firstBrace = cleaned.indexOf('{');
+    const firstBracket = cleaned.indexOf('[');
+
+    if (firstBrace === -1 && firstBracket === -1) {
+      throw new Error("No JSON structure found in response");
+    }
+
+    const start = (firstBrace !== -1 && (firstBracket === -1 || firstBrace < firstBracket))
+      ? firstBrace
+      : firstBracket;
+
+    cleaned = cleaned.substring(start);
+
+    // Find the last '}' or ']'
+    const lastBrace = cleaned.lastIndexOf('}');
+    const lastBracket = cleaned.lastIndexOf(']');
+
+    const end = Math.max(lastBrace, lastBracket);
+
+    if (end !== -1) {
+      cleaned = cleaned.substring(0, end + 1);
+    }
+
+    return JSON.parse(cleaned);
+  } catch (e) {
+    console.error("JSON Parsing Failed:", e);
+    console.error("Raw Text:", text);
+    throw new Error("Failed to parse AI response structure.");
+  }
+};
+
+// How ANALYZE builds the views: one canonical model call (unified) or one call per view (detailed)
+export type AnalysisMode = 'unified' | 'detailed';
+
+const ANALYSIS_MODE_KEY = 'kompass-analysis-mode';
+
+export const getAnalysisMode = (): AnalysisMode =>
+  localStorage.getItem(ANALYSIS_MODE_KEY) === 'detailed' ? 'detailed' : 'unified';
+
+export const setAnalysisMode = (mode: AnalysisMode) => {
+  localStorage.setItem(ANALYSIS_MODE_KEY, mode);
+};
+
+const JSON_SYSTEM_INSTRUCTION = "You are a JSON generator. Always return valid JSON only, no markdown, no explanations.";
+
+// Request size limits of the production proxy (netlify/functions/chat.js: MAX_MESSAGES, MAX_PROMPT_CHARS),
+// less headroom for the system prompt, the per-turn note and the analysis instructions
+const MAX_CONTEXT_MESSAGES = 50;
+const MAX_REQUEST_CHARS = 100000; // The limit itself, for requests that carry no conversation of their own
+const MAX_CONTEXT_CHARS = 80000;
+const MAX_TRANSCRIPT_CHARS = 60000;
+
+const OMITTED_NOTE = "[Earlier messages of this conversation were omitted to fit the length limit.]";
+
+// The unified model covers every option and view in one reply; a cut-off reply fails validation
+// and the corrective re-prompt would be cut off the same way
+const DECISION_MODEL_MAX_TOKENS = 8192;
+
+// Keeps the latest messages and, if there is room, the opening one (it states the decision);
+// anything dropped is replaced by a marker so the model knows there is a gap
+const trimToFit = <T>(
+  items: T[],
+  size: (item: T) => number,
+  truncate: (item: T, maxSize: number) => T,
+  maxItems: number,
+  maxSize: number,
+  marker: T
+): T[] => {
+  const total = items.reduce((sum, item) => sum + size(item), 0);
+  if (items.length <= maxItems && total <= maxSize) return items;
+
+  // The latest message is always sent, cut short if it does not fit even on its own:
+  // it is what the user is asking about
+  const last = items[items.length - 1];
+  if (items.length === 1) return [truncate(last, maxSize)];
+  let budget = maxSize - size(marker);
+  const latest = size(last) > budget ? truncate(last, Math.max(0, budget)) : last;
+  budget -= size(latest);
+
+  const recent: T[] = [latest];
+  for (let i = items.length - 2; i >= 1 && recent.length < maxItems - 2; i--) {
+    if (size(items[i]) > budget) break;
+    budget -= size(items[i]);
+    recent.unshift(items[i]);
+  }
+  return [...(size(items[0]) <= budget ? [items[0]] : []), marker, ...recent];
+};
+
+// Conversation transcript for analysis prompts (error replies are UI-only)
+const formatHistory = (history: Message[]) => trimToFit(
+  history.filter(m => !m.isError).map(m => `${m.role.toUpperCase()}: ${m.text}`),
+  line => line.length + 1,
+  (line, maxSize) => line.slice(0, Math.max(0, maxSize - 1)),
+  Infinity,
+  MAX_TRANSCRIPT_CHARS,
+  OMITTED_NOTE
+).join('\n');
+
+// Parses a raw reply and runs it through the payload's validator; parse failures count as validation errors
+const parseAndValidate = <T>(text: string, validate: Validator<T>): ValidationResult<T> => {
+  let raw: unknown;
+  try {
+    raw = cleanAndParseJSON(text);
+  } catch (e) {
+    return { value: null, errors: ["Response was not valid JSON. Return a single JSON value and nothing else."], repairs: [] };
+  }
+  const result = validate(raw);
+  if (result.repairs.length) {
+    console.info("Auto-repaired AI response:", result.repairs);
+  }
+  return result;
+};
+
+// Every generate* call runs through here: one JSON completion against the active provider,
+// validated against the expected shape, with a single corrective re-prompt if validation fails
+const generateJSON = async <T>(
+  task: GenerationTask,
+  prompt: string,
+  validate: Validator<T>,
+  emptyError: string,
+  options: { system?: string; maxTokens?: number; signal?: AbortSignal } = {}
+): Promise<T> => {
+  const provider = getActiveProvider();
+  const messages: ChatMessage[] = [
+    { role: "system", content: options.system || JSON_SYSTEM_INSTRUCTION },
+    { role: "user", content: prompt }
+  ];
+  const completionOptions = { task, maxTokens: options.maxTokens, signal: options.signal };
+
+  const text = await provider.complete(messages, completionOptions);
+  if (!text) throw new AIError('parse', emptyError);
+
+  const first = parseAndValidate(text, validate);
+  if (first.value !== null) return first.value;
+
+  console.warn(`Invalid ${task} response, re-prompting:`, first.errors);
+  const problems = first.errors.map(e => `- ${e}`).join('\n');
+  const correction = `Your JSON did not match the required structure:\n${problems}\n\nReturn the corrected JSON only, using exactly the structure requested above.`;
+  // The invalid reply goes back too when it fits the proxy's limit; a long prompt plus a long reply would
+  // be rejected, so then only the problems are described and the JSON is written afresh
+  const requestChars = messages.reduce((sum, m) => sum + m.content.length, 0);
+  const retryMessages: ChatMessage[] = requestChars + text.length + correction.length <= MAX_REQUEST_CHARS
+    ? [...messages, { role: "assistant", content: text }, { role: "user", content: correction }]
+    : [...messages, { role: "user", content: `Your previous answer (left out here for length) was rejected. ${correction}` }];
+  const retryText = await provider.complete(retryMessages, completionOptions);
+  if (!retryText) throw new AIError('parse', emptyError);
+
+  const second = parseAndValidate(retryText, validate);
+  if (second.value !== null) return second.value;
+
+  throw new ValidationError(`AI returned an invalid ${task} structure.`, second.errors);
+};
+
+// True for errors caused by aborting a request (Stop button, superseded generation)
+export const isAbortError = (error: unknown): boolean =>
+  (error as { name?: string } | null)?.name === 'AbortError';
+
+const toChatMessage = (m: Message): ChatMessage => ({
+  role: m.role === 'model' ? "assistant" : "user",
+  content: m.text
+});
+
+// Builds the model context from exactly what the user sees.
+// Error replies and empty placeholders are UI-only and never reach the model.
+// Long conversations keep their first message and the latest ones, within the proxy's request limits.
+// `note` is extra context for this turn only (e.g. mind map edits), placed just before the latest message.
+export const buildChatContext = (messages: Message[], note?: string | null): ChatMessage[] => {
+  const chat = trimToFit<ChatMessage>(
+    messages.filter(m => m.text && !m.isError).map(toChatMessage),
+    m => m.content.length,
+    (m, maxSize) => ({ ...m, content: m.content.slice(0, maxSize) }),
+    MAX_CONTEXT_MESSAGES,
+    MAX_CONTEXT_CHARS - CHAT_SYSTEM_INSTRUCTION.length - (note?.length || 0),
+    { role: "system", content: OMITTED_NOTE }
+  );
+  if (note && chat.length) chat.splice(chat.length - 1, 0, { role: "system", content: note });
+  return [{ role: "system", content: CHAT_SYSTEM_INSTRUCTION }, ...chat];
+};
+
+/**
+ * Streams the assistant reply to a conversation.
+ * Stateless: the caller passes the full message list (ending with the new user message),
+ * so editing, deleting or regenerating messages keeps the model in sync with the UI.
+ * Aborting `signal` stops the stream; text already yielded stays with the caller.
+ */
+export const sendMessageStream = async function* (
+  messages: Message[],
+  signal?: AbortSignal,
+  note?: string | null
+): AsyncGenerator<string, void, unknown> {
+  try {
+    yield* getActiveProvider().stream(buildChatContext(messages, note), { task: 'chat', signal });
+  } catch (error: any) {
+    if (!isAbortError(error)) console.error("Stream error:", error);
+    throw error;
+  }
+};
+
+/**
+ * Generates a hierarchical JSON for the Mind Map - OPTIMIZED for speed
+ */
+export const generateMindMapData = async (history: Message[], signal?: AbortSignal, userEdits?: string | null): Promise<MindMapNode> => {
+  // Only use last 10 messages for faster processing
+  const recentHistory = history.filter(m => !m.isError).slice(-10);
+  const context = recentHistory.map(m => `${m.role.toUpperCase()}: ${m.text.slice(0, 200)}`).join('\n');
+
+  const prompt = `Create a Mind Map JSON from this conversation.
+
+Rules:
+- ROOT: "Thought Space"
+- Add topic nodes for different subjects
+- Add option nodes with weight 1-10 (higher=more important)
+- Mark best option as isRecommendation:true
+- Every node needs unique id
+
+Conversation:
+${context}
+${userEdits ? `\n${userEdits}\nKeep the user's names, types and weights in the new map.\n` : ''}
+Return ONLY valid JSON:
+{"id":"root","name":"Thought Space","type":"root","children":[{"id":"t1","name":"Topic","type":"topic","weight":8,"children":[{"id":"o1","name":"Option","type":"option","weight":9,"isRecommendation":true}]}]}`;
+
+  return generateJSON<MindMapNode>('mindmap', prompt, validateMindMap, "No data generated", {
+    system: "Return valid JSON only.",
+    maxTokens: 1024,  // Reduced token limit for faster visualization
+    signal
+  });
+};
+
+/**
+ * Generates projection data.
+ */
+export const generateProjectionData = async (history: Message[], signal?: AbortSignal): Promise<ProjectionScenario[]> => {
+  const context = formatHistory(history);
+
+  const prompt = `
+    Identify top 2-3 options. 
+    Project their 'Satisfaction Score' (0-100) over time.
+    Be opinionated: Give the 'Recommended' option higher long-term scores if it makes sense.
+    
+    Conversation History:
+    ${context}
+
+    Return a JSON array with this structure:
+    [
+      {
+        "name": "Option Name",
+        "description": "Brief description",
+        "data": [
+          { "timeLabel": "Immediate", "value": 50 },
+          { "timeLabel": "1 Month", "value": 60 },
+          { "timeLabel": "6 Months", "value": 70 },
+          { "timeLabel": "1 Year", "value": 80 },
+          { "timeLabel": "5 Years", "value": 85 }
+        ]
+      }
+    ]
+  `;
+
+  return generateJSON<ProjectionScenario[]>('projection', prompt, validateProjections, "No projection generated", { signal });
+};
+
+/**
+ * Generates Comparison Matrix Data
+ */
+export const generateComparisonData = async (history: Message[], signal?: AbortSignal): Promise<ComparisonData> => {
+  const context = formatHistory(history);
+
+  const prompt = `
+    Create a Decision Matrix comparing the top 3 options from the conversation.
+    1. Identify 4 critical criteria relevant to the user's specific problem (e.g., Cost, Risk, Happiness, Speed).
+    2. For each option, provide a list of scores corresponding to these criteria.
+    3. Provide a brief 1-sentence summary for each option.
+    
+    Conversation History:
+    ${context}
+
+    Return a JSON object with this structure:
+    {
+      "criteria": ["Criterion 1", "Criterion 2", "Criterion 3", "Criterion 4"],
+      "rows": [
+        {
+          "optionName": "Option 1",
+          "isRecommended": true,
+          "summary": "Brief summary",
+          "scores": [
+            { "criteria": "Criterion 1", "score": 8 },
+            { "criteria": "Criterion 2", "score": 7 },
+            { "criteria": "Criterion 3", "score": 9 },
+            { "criteria": "Criterion 4", "score": 6 }
+          ]
+        }
+      ]
+    }
+  `;
+
+  return generateJSON<ComparisonData>('comparison', prompt, validateComparison, "No comparison data generated", { signal });
+};
+
+/**
+ * Generates Decision Tree data with branching paths and probabilities
+ */
+export const generateDecisionTree = async (history: Message[], signal?: AbortSignal): Promise<DecisionTreeData> => {
+  const context = formatHistory(history);
+
+  const prompt = `
+    Create a Decision Tree showing the branching paths and consequences of each option.
+    
+    Rules:
+    1. Start with the main decision as the root node (type: "decision")
+    2. Each option is a chance node (type: "chance") whose children are its possible outcomes (type: "outcome")
+    3. Assign probability percentages (0-100) to the children of chance nodes; they should sum to 100
+    4. Mark outcomes as positive, negative, or neutral
+    5. Include 2-3 levels of depth maximum
+    6. Mark the recommended path
+    7. When an outcome's value is uncertain, add "valueRange" with min, likely and max (0-10)
+    
+    Conversation History:
+    ${context}
+
+    Return a JSON object with this structure:
+    {
+      "root": {
+        "id": "decision-1",
+        "label": "Main Decision Question",
+        "type": "decision",
+        "children": [
+          {
+            "id": "option-1",
+            "label": "Option A",
+            "type": "chance",
+            "children": [
+              {
+                "id": "outcome-1",
+                "label": "Positive outcome description",
+                "type": "outcome",
+                "probability": 70,
+                "sentiment": "positive",
+                "value": 8
+              },
+              {
+                "id": "outcome-2",
+                "label": "Risk outcome description",
+                "type": "outcome",
+                "probability": 30,
+                "sentiment": "negative",
+                "value": 3,
+                "valueRange": { "min": 1, "likely": 3, "max": 5 }
+              }
+            ]
+          }
+        ]
+      },
+      "recommendation": "option-1"
+    }
+  `;
+
+  return generateJSON<DecisionTreeData>('tree', prompt, validateDecisionTree, "No decision tree generated", { signal });
+};
+
+/**
+ * Generates SWOT Analysis for each option
+ */
+export const generateSWOTAnalysis = async (history: Message[], signal?: AbortSignal): Promise<SWOTAnalysis> => {
+  const context = formatHistory(history);
+
+  const prompt = `
+    Create a SWOT Analysis for the top 2-3 options discussed.
+    
+    For each option, identify:
+    - Strengths: Internal positive factors
+    - Weaknesses: Internal negative factors
+    - Opportunities: External positive factors
+    - Threats: External negative factors
+    
+    Keep each point concise (under 15 words).
+    Calculate an overall score (-100 to 100) based on the balance of factors.
+    
+    Conversation History:
+    ${context}
+
+    Return a JSON object with this structure:
+    {
+      "options": [
+        {
+          "optionName": "Option Name",
+          "strengths": ["Strength 1", "Strength 2", "Strength 3"],
+          "weaknesses": ["Weakness 1", "Weakness 2"],
+          "opportunities": ["Opportunity 1", "Opportunity 2"],
+          "threats": ["Threat 1", "Threat 2"],
+          "overallScore": 45
+        }
+      ],
+      "recommendedOption": "Option Name"
+    }
+  `;
+
+  return generateJSON<SWOTAnalysis>('swot', prompt, validateSWOT, "No SWOT analysis generated", { signal });
+};
+
+/**
+ * Generates Cost-Benefit Analysis for each option
+ */
+export const generateCostBenefit = async (history: Message[], signal?: AbortSignal): Promise<CostBenefitAnalysis> => {
+  const context = formatHistory(history);
+
+  const prompt = `
+    Create a Cost-Benefit Analysis for the top 2-3 options discussed.
+    
+    Categories for costs and benefits:
+    - financial: Money-related factors
+    - time: Time investment or savings
+    - emotional: Stress, happiness, peace of mind
+    - opportunity: Future possibilities gained or lost
+    - social: Relationships, reputation, connections
+    
+    Assign magnitude (1-10) to each item.
+    When a magnitude is uncertain, add "magnitudeRange" with min, likely and max (0-10).
+    Calculate netScore = sum(benefit magnitudes) - sum(cost magnitudes)
+    
+    Conversation History:
+    ${context}
+
+    Return a JSON object with this structure:
+    {
+      "options": [
+        {
+          "optionName": "Option Name",
+          "costs": [
+            { "id": "cost-1", "category": "financial", "description": "Initial investment required", "magnitude": 7 },
+            { "id": "cost-2", "category": "time", "description": "Learning curve", "magnitude": 5 }
+          ],
+          "benefits": [
+            { "id": "benefit-1", "category": "financial", "description": "Long-term savings", "magnitude": 8, "magnitudeRange": { "min": 5, "likely": 8, "max": 9 } },
+            { "id": "benefit-2", "category": "emotional", "description": "Peace of mind", "magnitude": 6 }
+          ],
+          "netScore": 2,
+          "recommendation": "Good choice if you can afford the upfront cost"
+        }
+      ],
+      "bestOption": "Option Name"
+    }
+  `;
+
+  return generateJSON<CostBenefitAnalysis>('costbenefit', prompt, validateCostBenefit, "No cost-benefit analysis generated", { signal });
+};
+
+/**
+ * Generates Timeline/Roadmap data showing milestones over time
+ */
+export const generateTimelineData = async (history: Message[], signal?: AbortSignal): Promise<TimelineData> => {
+  const context = formatHistory(history);
+
+  const prompt = `
+    Create a Timeline showing key milestones for each option over time.
+    
+    Include milestones for:
+    - checkpoint: Key decision points or progress markers
+    - outcome: Results or achievements
+    - risk: Potential problems to watch for
+    - decision: Points where re-evaluation is needed
+    - benefit: When benefits start to materialize
+    
+    Use relative time labels: "1 week", "1 month", "3 months", "6 months", "1 year", "2 years", "5 years"
+    
+    Conversation History:
+    ${context}
+
+    Return a JSON object with this structure:
+    {
+      "milestones": [
+        {
+          "id": "m1",
+          "date": "1 week",
+          "label": "Start implementation",
+          "description": "Begin the process",
+          "type": "checkpoint",
+          "optionId": "option-1",
+          "optionName": "Option A"
+        },
+        {
+          "id": "m2",
+          "date": "1 month",
+          "label": "First results visible",
+          "description": "Initial progress becomes apparent",
+          "type": "outcome",
+          "optionId": "option-1",
+          "optionName": "Option A"
+        }
+      ],
+      "options": ["Option A", "Option B"],
+      "timeHorizon": "medium"
+    }
+  `;
+
+  return generateJSON<TimelineData>('timeline', prompt, validateTimeline, "No timeline data generated", { signal });
+};
+
+/**
+ * Unified analysis: extracts one canonical option/criteria model in a single call.
+ * Every view is derived from it locally (see utils/decisionModel), so the conversation is sent once
+ * instead of seven times and option names and the recommendation agree across tabs.
+ */
+export const generateDecisionModel = async (history: Message[], signal?: AbortSignal): Promise<DecisionModel> => {
+  const context = formatHistory(history);
+
+  const prompt = `
+    Analyze the decision in this conversation and build ONE structured model of it.
+    
+    Rules:
+    1. Identify the 2-4 real options discussed. Use short, consistent names.
+    2. Identify 3-5 criteria that matter to this user, with an importance weight (1-10).
+    3. Score every option on every criterion (1-10, higher is better for the user).
+    4. For each option give concise SWOT points (under 15 words each, 2-3 per list).
+    5. Costs and benefits use categories: financial, time, emotional, opportunity, social; magnitude 1-10.
+    6. Outcomes: 2-3 possible results per option with probabilities (0-100, summing to 100),
+       sentiment (positive, negative, neutral) and a payoff value (0-10).
+    7. Milestones: 2-4 per option, with relative dates ("1 week", "1 month", "3 months", "1 year", "5 years")
+       and type: checkpoint, outcome, risk, decision or benefit.
+    8. Projection: satisfaction (0-100) at Immediate, 1 Month, 6 Months, 1 Year, 5 Years.
+    9. Be opinionated: recommend exactly one option and explain why in one or two sentences.
+    
+    Conversation History:
+    ${context}
+
+    Return a JSON object with this structure:
+    {
+      "question": "The decision in one short question",
+      "criteria": [{ "name": "Compensation", "weight": 8 }, { "name": "Growth", "weight": 9 }],
+      "options": [
+        {
+          "id": "option-a",
+          "name": "Option A",
+          "summary": "One sentence summary",
+          "scores": { "Compensation": 6, "Growth": 9 },
+          "strengths": ["..."],
+          "weaknesses": ["..."],
+          "opportunities": ["..."],
+          "threats": ["..."],
+          "costs": [{ "category": "financial", "description": "...", "magnitude": 6 }],
+          "benefits": [{ "category": "opportunity", "description": "...", "magnitude": 8 }],
+          "outcomes": [
+            { "label": "It works out", "probability": 60, "sentiment": "positive", "value": 9 },
+            { "label": "It struggles", "probability": 40, "sentiment": "negative", "value": 3 }
+          ],
+          "milestones": [{ "date": "1 month", "label": "...", "description": "...", "type": "checkpoint" }],
+          "projection": [55, 60, 70, 78, 88]
+        }
+      ],
+      "recommendedOptionId": "option-a",
+      "rationale": "Why this option wins"
+    }
+  `;
+
+  return generateJSON<DecisionModel>('analysis', prompt, validateDecisionModel, "No analysis generated", {
+    maxTokens: DECISION_MODEL_MAX_TOKENS,
+    signal
+  });
+};
@@ -0,0 +1,113 @@
+// Typed failures for AI requests
+// Providers turn HTTP/network failures into an AIError with a kind, so callers can decide whether to
+// retry and the UI can explain *why* something failed instead of showing a raw vendor message.
+
+import { ValidationError } from "../utils/validators";
+
+export type AIErrorKind =
+  | 'auth'
+  | 'rate-limit'
+  | 'quota'
+  | 'context-length'
+  | 'network'
+  | 'parse'
+  | 'content-filter'
+  | 'server'
+  | 'unknown';
+
+// Worth retrying automatically - the same request may succeed a moment later
+const TRANSIENT_KINDS: AIErrorKind[] = ['rate-limit', 'network', 'server'];
+
+export class AIError extends Error {
+  kind: AIErrorKind;
+  status?: number;
+  // Server-provided wait before retrying (Retry-After header)
+  retryAfterMs?: number;
+  // Extra context, e.g. the validation errors of an unusable payload
+  details: string[];
+
+  constructor(
+    kind: AIErrorKind,
+    message: string,
+    options: { status?: number; retryAfterMs?: number; details?: string[] } = {}
+  ) {
+    super(message);
+    this.name = 'AIError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.details = options.details || [];
+  }
+
+  get isTransient(): boolean {
+    return TRANSIENT_KINDS.includes(this.kind);
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export const parseRetryAfter = (value: string | null | undefined): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const CONTEXT_LENGTH_PATTERN = /context[_ ]length|maximum context|context window|too many tokens|conversation is too long/i;
+const CONTENT_FILTER_PATTERN = /content[_ ]filter|content management policy|content exists risk|sensitive content|safety system/i;
+const QUOTA_PATTERN = /quota|insufficient[_ ]balance|billing|out of credit/i;
+
+// Maps a failed HTTP response to a typed error, using the status, the vendor's message and error code
+export const classifyHttpError = (status: number, message: string, retryAfter?: string | null, code?: string): AIError => {
+  const options = { status, retryAfterMs: parseRetryAfter(retryAfter) };
+
+  // Message and code checks come first: vendors report these with a generic 400
+  if (CONTEXT_LENGTH_PATTERN.test(message) || (code && CONTEXT_LENGTH_PATTERN.test(code))) {
+    return new AIError('context-length', message, options);
+  }
+  if (CONTENT_FILTER_PATTERN.test(message)) return new AIError('content-filter', message, options);
+  if (status === 402 || QUOTA_PATTERN.test(message)) return new AIError('quota', message, options);
+  if (status === 401 || status === 403) return new AIError('auth', message, options);
+  if (status === 429) return new AIError('rate-limit', message, options);
+  if (status === 408 || status >= 500) return new AIError('server', message, options);
+  return new AIError('unknown', message, options);
+};
+
+// Normalizes anything thrown by a generate*/stream call
+export const toAIError = (error: unknown): AIError => {
+  if (error instanceof AIError) return error;
+  if (error instanceof ValidationError) {
+    return new AIError('parse', error.message, { details: error.errors });
+  }
+  if (error instanceof SyntaxError) {
+    return new AIError('parse', "Failed to parse AI response structure.");
+  }
+  const message = (error as { message?: string } | null)?.message || "Unexpected error";
+  return new AIError('unknown', message);
+};
+
+// Short, user-facing explanation of a failure
+export const describeAIError = (error: AIError): { title: string; hint: string } => {
+  switch (error.kind) {
+    case 'auth':
+      return { title: "Authentication failed", hint: "Check the API key for the selected provider." };
+    case 'rate-limit': {
+      const wait = error.retryAfterMs ? ` (about ${Math.ceil(error.retryAfterMs / 1000)}s)` : '';
+      return { title: "Rate limited", hint: `Too many requests right now. Wait a moment${wait} and retry.` };
+    }
+    case 'quota':
+      return { title: "Quota exhausted", hint: "The provider account is out of credit or quota." };
+    case 'context-length':
+      return { title: "Conversation too long", hint: "Edit earlier messages or start a new decision to shorten it." };
+    case 'network':
+      return { title: "Could not reach the AI service", hint: "Check your connection, or the CORS settings of a custom endpoint." };
+    case 'parse':
+      return { title: "Unreadable response", hint: "The AI returned data in an unexpected shape. Retrying usually fixes this." };
+    case 'content-filter':
+      return { title: "Blocked by content filter", hint: "The provider refused this content. Try rephrasing." };
+    case 'server':
+      return { title: "AI service error", hint: "The provider had a temporary problem. Retry in a moment." };
+    default:
+      return { title: "Something went wrong", hint: error.message };
+  }
+};
@@ -0,0 +1,32 @@
+import { createOpenAICompatibleProvider } from './openaiCompatible';
+import { AIError } from '../errors';
+
+// API Configuration
+// Development: Use Vite proxy to avoid CORS
+// Production: Use Netlify Function (which holds API key securely)
+const IS_DEV = import.meta.env.DEV;
+const DEEPSEEK_API_URL = IS_DEV
+  ? "/api/deepseek/chat/completions"  // Vite proxy in development
+  : "/api/chat";  // Netlify Function in production (secure!)
+
+// Helper to get API key (only needed in development)
+const getAPIKey = (): string => {
+  // In production, the Netlify function has the API key
+  if (!IS_DEV) {
+    return ''; // Not needed - serverless function handles it
+  }
+  const apiKey = import.meta.env.VITE_DEEPSEEK_API_KEY || '';
+  if (!apiKey) {
+    throw new AIError('auth', "API key is missing. Please set VITE_DEEPSEEK_API_KEY in your .env file.");
+  }
+  return apiKey;
+};
+
+export const deepseekProvider = createOpenAICompatibleProvider({
+  id: 'deepseek',
+  label: 'DeepSeek',
+  url: DEEPSEEK_API_URL,
+  model: import.meta.env.VITE_DEEPSEEK_MODEL || "deepseek-chat",
+  getApiKey: getAPIKey,
+  isConfigured: () => !IS_DEV || Boolean(import.meta.env.VITE_DEEPSEEK_API_KEY),
+});
@@ -0,0 +1,47 @@
+import { LLMProvider } from './types';
+import { deepseekProvider } from './deepseek';
+import { zhipuProvider } from './zhipu';
+import { openaiCompatibleProvider } from './openai';
+import { localProvider } from './local';
+
+export type { ChatMessage, ChatRole, CompletionOptions, GenerationTask, LLMProvider } from './types';
+export { createOpenAICompatibleProvider } from './openaiCompatible';
+
+// Provider Registry
+// Adding a vendor = implement LLMProvider (or use the OpenAI-compatible factory) and register it here.
+const registry = new Map<string, LLMProvider>();
+
+export const registerProvider = (provider: LLMProvider) => {
+  registry.set(provider.id, provider);
+};
+
+[deepseekProvider, zhipuProvider, openaiCompatibleProvider, localProvider].forEach(registerProvider);
+
+export const getProvider = (id: string): LLMProvider | undefined => registry.get(id);
+
+export const listProviders = (): LLMProvider[] => Array.from(registry.values());
+
+const PROVIDER_KEY = 'kompass-provider';
+const DEFAULT_PROVIDER_ID = import.meta.env.VITE_LLM_PROVIDER || deepseekProvider.id;
+
+const loadActiveProviderId = (): string => {
+  if (typeof window !== 'undefined') {
+    const stored = localStorage.getItem(PROVIDER_KEY);
+    if (stored && registry.has(stored)) {
+      return stored;
+    }
+  }
+  return registry.has(DEFAULT_PROVIDER_ID) ? DEFAULT_PROVIDER_ID : deepseekProvider.id;
+};
+
+let activeProviderId = loadActiveProviderId();
+
+export const getActiveProvider = (): LLMProvider => registry.get(activeProviderId) || deepseekProvider;
+
+export const setActiveProvider = (id: string) => {
+  if (!registry.has(id)) {
+    throw new Error(`Unknown provider: ${id}`);
+  }
+  activeProviderId = id;
+  localStorage.setItem(PROVIDER_KEY, id);
+};
@@ -0,0 +1,208 @@
+import { ChatMessage, CompletionOptions, GenerationTask, LLMProvider } from './types';
+import { sleep } from './retry';
+
+// Offline stand-in provider: no network, no API key.
+// Returns canned but well-formed responses so the UI can be developed and demoed without a vendor.
+
+const OPTION_A = "Startup Offer";
+const OPTION_B = "Corporate Offer";
+
+const fixtures: Record<Exclude<GenerationTask, 'chat'>, unknown> = {
+  mindmap: {
+    id: "root", name: "Thought Space", type: "root", children: [
+      {
+        id: "t1", name: "Job Offers", type: "topic", weight: 8, children: [
+          {
+            id: "o1", name: OPTION_A, type: "option", weight: 9, isRecommendation: true, children: [
+              { id: "p1", name: "Equity upside", type: "pro", weight: 6 },
+              { id: "c1", name: "Less stability", type: "con", weight: 5 },
+            ]
+          },
+          {
+            id: "o2", name: OPTION_B, type: "option", weight: 7, children: [
+              { id: "p2", name: "Higher base salary", type: "pro", weight: 6 },
+              { id: "c2", name: "Slower growth", type: "con", weight: 4 },
+            ]
+          },
+        ]
+      },
+    ]
+  },
+  projection: [
+    {
+      name: OPTION_A, description: "Bumpy start, strong long-term payoff",
+      data: [
+        { timeLabel: "Immediate", value: 55 }, { timeLabel: "1 Month", value: 60 },
+        { timeLabel: "6 Months", value: 70 }, { timeLabel: "1 Year", value: 78 }, { timeLabel: "5 Years", value: 88 },
+      ]
+    },
+    {
+      name: OPTION_B, description: "Comfortable and steady, plateaus early",
+      data: [
+        { timeLabel: "Immediate", value: 70 }, { timeLabel: "1 Month", value: 72 },
+        { timeLabel: "6 Months", value: 72 }, { timeLabel: "1 Year", value: 70 }, { timeLabel: "5 Years", value: 65 },
+      ]
+    },
+  ],
+  comparison: {
+    criteria: ["Compensation", "Growth", "Stability", "Work-life balance"],
+    rows: [
+      {
+        optionName: OPTION_A, isRecommended: true, summary: "Higher risk, much faster learning curve.",
+        scores: [
+          { criteria: "Compensation", score: 6 }, { criteria: "Growth", score: 9 },
+          { criteria: "Stability", score: 4 }, { criteria: "Work-life balance", score: 5 },
+        ]
+      },
+      {
+        optionName: OPTION_B, isRecommended: false, summary: "Safe and well paid, limited upside.",
+        scores: [
+          { criteria: "Compensation", score: 8 }, { criteria: "Growth", score: 5 },
+          { criteria: "Stability", score: 9 }, { criteria: "Work-life balance", score: 7 },
+        ]
+      },
+    ]
+  },
+  tree: {
+    root: {
+      id: "decision-1", label: "Which offer to accept?", type: "decision", children: [
+        {
+          id: "option-1", label: OPTION_A, type: "chance", children: [
+            { id: "outcome-1", label: "Startup succeeds", type: "outcome", probability: 40, probabilityRange: { min: 25, likely: 40, max: 55 }, sentiment: "positive", value: 10 },
+            { id: "outcome-2", label: "Startup folds", type: "outcome", probability: 60, sentiment: "negative", value: 4, valueRange: { min: 2, likely: 4, max: 6 } },
+          ]
+        },
+        {
+          id: "option-2", label: OPTION_B, type: "chance", children: [
+            { id: "outcome-3", label: "Steady promotion", type: "outcome", probability: 70, sentiment: "positive", value: 7 },
+            { id: "outcome-4", label: "Stagnation", type: "outcome", probability: 30, sentiment: "neutral", value: 5 },
+          ]
+        },
+      ]
+    },
+    recommendation: "option-1"
+  },
+  swot: {
+    options: [
+      {
+        optionName: OPTION_A,
+        strengths: ["Broad ownership", "Fast learning"], weaknesses: ["Long hours"],
+        opportunities: ["Equity upside"], threats: ["Funding risk"], overallScore: 40
+      },
+      {
+        optionName: OPTION_B,
+        strengths: ["High salary", "Good benefits"], weaknesses: ["Narrow role"],
+        opportunities: ["Internal mobility"], threats: ["Reorgs"], overallScore: 30
+      },
+    ],
+    recommendedOption: OPTION_A
+  },
+  costbenefit: {
+    options: [
+      {
+        optionName: OPTION_A,
+        costs: [{ id: "cost-1", category: "financial", description: "Lower base salary", magnitude: 6, magnitudeRange: { min: 4, likely: 6, max: 8 } }],
+        benefits: [{ id: "benefit-1", category: "opportunity", description: "Equity and fast growth", magnitude: 9, magnitudeRange: { min: 3, likely: 9, max: 10 } }],
+        netScore: 3, recommendation: "Worth it if you can absorb the pay cut"
+      },
+      {
+        optionName: OPTION_B,
+        costs: [{ id: "cost-2", category: "opportunity", description: "Slower career growth", magnitude: 5 }],
+        benefits: [{ id: "benefit-2", category: "financial", description: "Higher, reliable pay", magnitude: 7 }],
+        netScore: 2, recommendation: "The safe choice"
+      },
+    ],
+    bestOption: OPTION_A
+  },
+  timeline: {
+    milestones: [
+      { id: "m1", date: "1 month", label: "Onboarding", type: "checkpoint", optionId: "option-1", optionName: OPTION_A },
+      { id: "m2", date: "1 year", label: "Next funding round", type: "risk", optionId: "option-1", optionName: OPTION_A },
+      { id: "m3", date: "1 month", label: "Onboarding", type: "checkpoint", optionId: "option-2", optionName: OPTION_B },
+      { id: "m4", date: "1 year", label: "First promotion cycle", type: "benefit", optionId: "option-2", optionName: OPTION_B },
+    ],
+    options: [OPTION_A, OPTION_B],
+    timeHorizon: "medium"
+  },
+  analysis: {
+    question: "Which offer to accept?",
+    criteria: [
+      { name: "Compensation", weight: 7 }, { name: "Growth", weight: 9 },
+      { name: "Stability", weight: 6 }, { name: "Work-life balance", weight: 5 },
+    ],
+    options: [
+      {
+        id: "startup", name: OPTION_A, summary: "Higher risk, much faster learning curve.",
+        scores: { Compensation: 6, Growth: 9, Stability: 4, "Work-life balance": 5 },
+        strengths: ["Broad ownership", "Fast learning"], weaknesses: ["Long hours"],
+        opportunities: ["Equity upside"], threats: ["Funding risk"],
+        costs: [{ category: "financial", description: "Lower base salary", magnitude: 6 }],
+        benefits: [{ category: "opportunity", description: "Equity and fast growth", magnitude: 9 }],
+        outcomes: [
+          { label: "Startup succeeds", probability: 40, sentiment: "positive", value: 10 },
+          { label: "Startup folds", probability: 60, sentiment: "negative", value: 4 },
+        ],
+        milestones: [
+          { date: "1 month", label: "Onboarding", type: "checkpoint" },
+          { date: "1 year", label: "Next funding round", type: "risk" },
+        ],
+        projection: [55, 60, 70, 78, 88],
+      },
+      {
+        id: "corporate", name: OPTION_B, summary: "Safe and well paid, limited upside.",
+        scores: { Compensation: 8, Growth: 5, Stability: 9, "Work-life balance": 7 },
+        strengths: ["High salary", "Good benefits"], weaknesses: ["Narrow role"],
+        opportunities: ["Internal mobility"], threats: ["Reorgs"],
+        costs: [{ category: "opportunity", description: "Slower career growth", magnitude: 5 }],
+        benefits: [{ category: "financial", description: "Higher, reliable pay", magnitude: 7 }],
+        outcomes: [
+          { label: "Steady promotion", probability: 70, sentiment: "positive", value: 7 },
+          { label: "Stagnation", probability: 30, sentiment: "neutral", value: 5 },
+        ],
+        milestones: [
+          { date: "1 month", label: "Onboarding", type: "checkpoint" },
+          { date: "1 year", label: "First promotion cycle", type: "benefit" },
+        ],
+        projection: [70, 72, 72, 70, 65],
+      },
+    ],
+    recommendedOptionId: "startup",
+    rationale: "Growth matters most to you and the downside is survivable early in your career."
+  },
+};
+
+const CHAT_REPLY = `I'm running in **offline mode**, so this is a sample answer.
+
+For a choice like yours I would compare two paths:
+
+1. **${OPTION_A}**: faster growth and equity, but less stability.
+2. **${OPTION_B}**: higher pay and security, with slower growth.
+
+I recommend the ${OPTION_A} if you can handle the risk. What matters most to you?
+
+[OPTIONS: Compensation | Growth | Stability | Work-life balance]`;
+
+const respond = (options?: CompletionOptions): string => {
+  const task = options?.task;
+  if (!task || task === 'chat') return CHAT_REPLY;
+  return JSON.stringify(fixtures[task]);
+};
+
+export const localProvider: LLMProvider = {
+  id: 'local',
+  label: 'Offline (sample data)',
+  model: 'local-fixtures',
+  isConfigured: () => true,
+  complete: async (_messages: ChatMessage[], options?: CompletionOptions) => {
+    await sleep(300, options?.signal);
+    return respond(options);
+  },
+  stream: async function* (_messages: ChatMessage[], options?: CompletionOptions) {
+    // Emit word by word so streaming UI paths get exercised
+    const words = respond(options).split(/(\s+)/);
+    for (const word of words) {
+      await sleep(15, options?.signal);
+      yield word;
+    }
+  },
+};
@@ -0,0 +1,13 @@
+import { createOpenAICompatibleProvider } from './openaiCompatible';
+
+// Generic OpenAI-compatible endpoint (OpenAI, OpenRouter, LM Studio, Ollama /v1...)
+// Configure with VITE_OPENAI_API_URL, VITE_OPENAI_MODEL and optionally VITE_OPENAI_API_KEY.
+export const openaiCompatibleProvider = createOpenAICompatibleProvider({
+  id: 'openai-compatible',
+  label: 'OpenAI-compatible',
+  url: import.meta.env.VITE_OPENAI_API_URL || "https://api.openai.com/v1/chat/completions",
+  model: import.meta.env.VITE_OPENAI_MODEL || "gpt-4o-mini",
+  // Local servers usually accept requests without a key
+  getApiKey: () => import.meta.env.VITE_OPENAI_API_KEY || '',
+  isConfigured: () => Boolean(import.meta.env.VITE_OPENAI_API_URL || import.meta.env.VITE_OPENAI_API_KEY),
+});
@@ -0,0 +1,187 @@
+import { ChatMessage, CompletionOptions, LLMProvider } from './types';
+import { AIError, classifyHttpError } from '../errors';
+import { withRetry } from './retry';
+
+// Any endpoint that speaks the OpenAI /chat/completions protocol
+// (DeepSeek, Zhipu GLM, OpenAI, LM Studio, Ollama...) is built from this factory.
+export interface OpenAICompatibleConfig {
+  id: string;
+  label: string;
+  url: string;
+  model: string;
+  // Returns the bearer token, or '' when the endpoint needs none (e.g. server-side proxy)
+  getApiKey?: () => string;
+  isConfigured?: () => boolean;
+  headers?: Record<string, string>;
+  // Vendor-specific payload fields merged into every request
+  extraPayload?: Record<string, unknown>;
+  defaultMaxTokens?: number;
+  // Largest max_tokens the endpoint accepts; bigger requests are capped to it
+  maxTokensLimit?: number;
+}
+
+// Pulls a human readable message out of the various vendor error shapes
+const extractErrorMessage = (errorText: string, fallback: string): string => {
+  try {
+    const errorJson = JSON.parse(errorText);
+    if (errorJson.error?.message) return errorJson.error.message;
+    if (typeof errorJson.error === 'string') return errorJson.error;
+    if (errorJson.message) return errorJson.message;
+    if (errorJson.msg) return errorJson.msg;
+  } catch (e) {
+    // Use default error message
+  }
+  return fallback;
+};
+
+// Machine-readable error code, e.g. OpenAI's "context_length_exceeded" or our proxy's own codes
+const extractErrorCode = (errorText: string): string | undefined => {
+  try {
+    const errorJson = JSON.parse(errorText);
+    const code = errorJson.error?.code ?? errorJson.code;
+    return typeof code === 'string' ? code : undefined;
+  } catch (e) {
+    return undefined;
+  }
+};
+
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleConfig): LLMProvider => {
+  const request = async (messages: ChatMessage[], stream: boolean, options: CompletionOptions = {}) => {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'Accept': stream ? 'text/event-stream' : 'application/json',
+      ...config.headers,
+    };
+
+    const apiKey = config.getApiKey?.() || '';
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+
+    console.log(`Calling ${config.label} with model:`, config.model);
+
+    const payload: Record<string, unknown> = {
+      model: config.model,
+      messages,
+      stream,
+      temperature: options.temperature ?? 0.7,
+      max_tokens: Math.min(options.maxTokens ?? config.defaultMaxTokens ?? 4096, config.maxTokensLimit ?? Infinity),
+      ...config.extraPayload,
+    };
+
+    // Only establishing the response is retried; a stream that already started is not replayed
+    return withRetry(async () => {
+      let response: Response;
+      try {
+        response = await fetch(config.url, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify(payload),
+          mode: 'cors',
+          signal: options.signal,
+        });
+      } catch (error: any) {
+        if (error.name === 'TypeError') {
+          console.error("Network/CORS Error:", error);
+          throw new AIError('network', `Failed to connect to ${config.label}. This might be a CORS issue.`);
+        }
+        throw error;
+      }
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error(`${config.label} API Error:`, errorText);
+        throw classifyHttpError(
+          response.status,
+          extractErrorMessage(errorText, `API request failed: ${response.status} ${response.statusText}`),
+          response.headers.get('retry-after'),
+          extractErrorCode(errorText)
+        );
+      }
+
+      return response;
+    }, { signal: options.signal, label: config.label });
+  };
+
+  const CONTENT_FILTER_MESSAGE = `${config.label} blocked this response with its content filter.`;
+
+  const complete = async (messages: ChatMessage[], options?: CompletionOptions): Promise<string> => {
+    const response = await request(messages, false, options);
+    let data: any;
+    try {
+      data = await response.json();
+    } catch (e) {
+      throw new AIError('parse', `${config.label} returned a response that is not JSON.`);
+    }
+    if (data.choices?.[0]?.finish_reason === 'content_filter') {
+      throw new AIError('content-filter', CONTENT_FILTER_MESSAGE);
+    }
+    return data.choices?.[0]?.message?.content || '';
+  };
+
+  const stream = async function* (messages: ChatMessage[], options?: CompletionOptions): AsyncGenerator<string, void, unknown> {
+    const response = await request(messages, true, options);
+    const reader = response.body?.getReader();
+    const decoder = new TextDecoder();
+
+    if (!reader) {
+      throw new AIError('server', `${config.label} returned an empty stream.`);
+    }
+
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const events = buffer.split('\n\n');
+      buffer = events.pop() || '';
+
+      for (const event of events) {
+        const dataLine = event
+          .split('\n')
+          .map(line => line.trim())
+          .find(line => line.startsWith('data:'));
+
+        if (!dataLine) continue;
+
+        const data = dataLine.slice(5).trim();
+        if (data === '[DONE]') continue;
+
+        let parsed: any;
+        try {
+          parsed = JSON.parse(data);
+        } catch (e) {
+          // Skip invalid JSON lines
+          continue;
+        }
+
+        // Upstream (or our proxy) can fail after the stream has started
+        if (parsed.error) {
+          throw classifyHttpError(Number(parsed.error.code) || 500, extractErrorMessage(data, `${config.label} stream failed`));
+        }
+        if (parsed.choices?.[0]?.finish_reason === 'content_filter') {
+          throw new AIError('content-filter', CONTENT_FILTER_MESSAGE);
+        }
+
+        // OpenAI-style chunks carry text in choices[0].delta.content
+        const content = parsed.choices?.[0]?.delta?.content ||
+          parsed.choices?.[0]?.message?.content ||
+          '';
+        if (content) {
+          yield content;
+        }
+      }
+    }
+  };
+
+  return {
+    id: config.id,
+    label: config.label,
+    model: config.model,
+    isConfigured: config.isConfigured || (() => Boolean(config.url)),
+    complete,
+    stream,
+  };
+};
@@ -0,0 +1,46 @@
+import { AIError } from '../errors';
+
+// Behaves like an aborted fetch so callers handle both the same way
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+  if (signal?.aborted) return reject(abortError());
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(abortError());
+  }, { once: true });
+});
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  label?: string;
+}
+
+// "Full jitter" exponential backoff: spreads simultaneous retries (e.g. the seven analysis calls) apart
+export const backoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number): number =>
+  Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+
+/**
+ * Runs `fn`, retrying transient AIErrors (rate limits, network, 5xx) with jittered backoff.
+ * A server-provided Retry-After wins over the computed delay; waits longer than maxDelayMs are not worth it.
+ */
+export const withRetry = async <T>(fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { retries = 2, baseDelayMs = 800, maxDelayMs = 10000, signal, label = 'request' } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (!(error instanceof AIError) || !error.isTransient || attempt >= retries) throw error;
+
+      const wait = error.retryAfterMs ?? backoffDelay(attempt, baseDelayMs, maxDelayMs);
+      if (wait > maxDelayMs) throw error;
+
+      console.warn(`${label} failed (${error.kind}), retrying in ${Math.round(wait)}ms [${attempt + 1}/${retries}]`);
+      await sleep(wait, signal);
+    }
+  }
+};
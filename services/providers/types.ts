@@ -0,0 +1,42 @@
+// Shared contract for every LLM backend Kompass can talk to.
+// Each vendor implements LLMProvider; aiService only ever talks to this interface.
+
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+// Identifies which generator is asking. Real providers ignore it,
+// offline providers use it to pick a matching canned response.
+export type GenerationTask =
+  | 'chat'
+  | 'mindmap'
+  | 'projection'
+  | 'comparison'
+  | 'tree'
+  | 'swot'
+  | 'costbenefit'
+  | 'timeline'
+  | 'analysis';
+
+export interface CompletionOptions {
+  maxTokens?: number;
+  temperature?: number;
+  task?: GenerationTask;
+  // Cancels the request, including a stream that is already being read
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  id: string;
+  label: string;
+  model: string;
+  // False when required configuration (API key, endpoint) is missing
+  isConfigured: () => boolean;
+  // Single-shot completion, resolves with the assistant text
+  complete: (messages: ChatMessage[], options?: CompletionOptions) => Promise<string>;
+  // Streaming completion, yields text deltas as they arrive
+  stream: (messages: ChatMessage[], options?: CompletionOptions) => AsyncGenerator<string, void, unknown>;
+}
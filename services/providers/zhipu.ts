@@ -0,0 +1,28 @@
+import { createOpenAICompatibleProvider } from './openaiCompatible';
+import { AIError } from '../errors';
+
+// Zhipu AI API Configuration
+const ZAI_API_URL = import.meta.env.VITE_ZAI_API_URL || "https://open.bigmodel.cn/api/paas/v4/chat/completions";
+const THINKING_ENABLED = (import.meta.env.VITE_ZAI_THINKING || "enabled").toLowerCase() === "enabled";
+
+// Helper to get API key - use import.meta.env for Vite
+const getAPIKey = (): string => {
+  const apiKey = import.meta.env.VITE_ZAI_API_KEY || '';
+  if (!apiKey) {
+    throw new AIError('auth', "API key is missing. Please set VITE_ZAI_API_KEY in your .env.local file.");
+  }
+  return apiKey;
+};
+
+export const zhipuProvider = createOpenAICompatibleProvider({
+  id: 'zhipu',
+  label: 'Zhipu GLM',
+  url: ZAI_API_URL,
+  model: import.meta.env.VITE_ZAI_MODEL || "glm-4",
+  getApiKey: getAPIKey,
+  isConfigured: () => Boolean(import.meta.env.VITE_ZAI_API_KEY),
+  headers: { 'User-Agent': 'Pathfinder-AI-Companion/1.0' },
+  maxTokensLimit: 4095,
+  // Enable Z.ai "thinking" traces by default; can be disabled via VITE_ZAI_THINKING=disabled
+  extraPayload: THINKING_ENABLED ? { thinking: { type: "enabled" } } : undefined,
+});
@@ -0,0 +1,203 @@
+// Session bundles: a whole decision as one portable JSON file
+// A bundle carries the session exactly as it is stored (conversation tree, every analysis payload,
+// pending mind map edits, score overrides) plus the settings it was made with. Bundles are versioned;
+// older versions are upgraded step by step on import. Files can be hand-made or come from a share
+// link, so everything in them is checked before it is stored.
+
+import { AnalysisSnapshot, DecisionSession, MindMapEdit } from "../types";
+import { findChatTreeProblem } from "../utils/chatTree";
+import { createId } from "../utils/id";
+import {
+  Validator,
+  validateMindMap,
+  validateProjections,
+  validateComparison,
+  validateDecisionTree,
+  validateSWOT,
+  validateCostBenefit,
+  validateTimeline,
+  validateDecisionModel
+} from "../utils/validators";
+import { AnalysisMode, getAnalysisMode, setAnalysisMode } from "./aiService";
+import { getActiveProvider, getProvider, setActiveProvider } from "./providers";
+import { DEFAULT_SESSION_NAME, reviveSession } from "./sessionStore";
+
+export const BUNDLE_FORMAT = "kompass-session";
+export const BUNDLE_VERSION = 1;
+
+export interface BundleSettings {
+  provider?: string;
+  analysisMode?: AnalysisMode;
+}
+
+export interface SessionBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string; // ISO date
+  settings: BundleSettings;
+  session: DecisionSession;
+}
+
+export class BundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BundleError";
+  }
+}
+
+const isObject = (v: unknown): v is Record<string, any> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+// Each step upgrades a bundle from version N to N + 1
+const MIGRATIONS: Record<number, (bundle: any) => any> = {
+  // Version 0 is a bare session object, e.g. copied out of localStorage (possibly still with the flat
+  // message list sessions had before branching, which reviveSession converts)
+  0: (session) => ({
+    format: BUNDLE_FORMAT,
+    version: 1,
+    exportedAt: new Date(session.updatedAt || Date.now()).toISOString(),
+    settings: {},
+    session,
+  }),
+};
+
+const detectVersion = (raw: unknown): number => {
+  if (isObject(raw) && raw.format === BUNDLE_FORMAT) {
+    if (typeof raw.version !== "number" || !Number.isInteger(raw.version)) {
+      throw new BundleError("The file has no valid bundle version.");
+    }
+    return raw.version;
+  }
+  if (isObject(raw) && (isObject(raw.chat) || Array.isArray(raw.messages))) return 0;
+  throw new BundleError("This is not a Kompass session file.");
+};
+
+const EDIT_KINDS: MindMapEdit["kind"][] = ["rename", "add", "delete", "retype", "recommend", "weight"];
+
+const isMindMapEdit = (v: unknown): v is MindMapEdit =>
+  isObject(v) && EDIT_KINDS.includes(v.kind) && typeof v.nodeName === "string" &&
+  (v.from === undefined || typeof v.from === "string") && (v.to === undefined || typeof v.to === "string");
+
+type Check = <T>(value: T | null | undefined, validate: Validator<T>, label: string) => T | null;
+
+// Runs a check over every analysis payload; `dropped` collects the labels of the ones that fail
+const checker = (dropped: string[]): Check => (value, validate, label) => {
+  if (value === null || value === undefined) return null;
+  const result = validate(value);
+  if (result.value === null) dropped.push(label);
+  return result.value;
+};
+
+const checkAnalysis = (source: Record<string, any>, check: Check): AnalysisSnapshot => ({
+  decisionModel: check(source.decisionModel, validateDecisionModel, "unified analysis"),
+  mindMap: check(source.mindMap, validateMindMap, "mind map"),
+  decisionTree: check(source.decisionTree, validateDecisionTree, "decision tree"),
+  swot: check(source.swot, validateSWOT, "SWOT"),
+  costBenefit: check(source.costBenefit, validateCostBenefit, "cost/benefit"),
+  comparison: check(source.comparison, validateComparison, "comparison"),
+  timeline: check(source.timeline, validateTimeline, "timeline"),
+  projections: Array.isArray(source.projections) && source.projections.length
+    ? check(source.projections, validateProjections, "outcome projections") || []
+    : [],
+});
+
+// Analyses kept for other branches are not on screen, so one with any failing payload is left out
+// quietly; switching to its branch then analyzes it again
+const checkCachedAnalyses = (session: DecisionSession): Record<string, AnalysisSnapshot> => {
+  if (!isObject(session.analysesByLeaf)) return {};
+  return Object.fromEntries(Object.entries(session.analysesByLeaf).flatMap(([leafId, cached]) => {
+    if (!session.chat.nodes[leafId] || !isObject(cached)) return [];
+    const failed: string[] = [];
+    const snapshot = checkAnalysis(cached, checker(failed));
+    return failed.length ? [] : [[leafId, snapshot]];
+  }));
+};
+
+// A damaged conversation rejects the file; analysis payloads go through the same validators as fresh
+// AI output, and one that still fails is left out (the user can re-analyze) and listed in `dropped`
+const checkSession = (session: DecisionSession): { session: DecisionSession; dropped: string[] } => {
+  const problem = findChatTreeProblem(session.chat);
+  if (problem) throw new BundleError(`The conversation in the file is damaged: ${problem}.`);
+
+  const dropped: string[] = [];
+  const now = Date.now();
+  return {
+    session: {
+      ...session,
+      id: typeof session.id === "string" && session.id ? session.id : createId(),
+      name: typeof session.name === "string" && session.name.trim() ? session.name : DEFAULT_SESSION_NAME,
+      createdAt: Number.isFinite(session.createdAt) ? session.createdAt : now,
+      updatedAt: Number.isFinite(session.updatedAt) ? session.updatedAt : now,
+      analyzedLeafId: typeof session.analyzedLeafId === "string" && session.chat.nodes[session.analyzedLeafId]
+        ? session.analyzedLeafId
+        : null,
+      analysesByLeaf: checkCachedAnalyses(session),
+      mindMapEdits: Array.isArray(session.mindMapEdits) ? session.mindMapEdits.filter(isMindMapEdit) : [],
+      ...checkAnalysis(session, checker(dropped)),
+    },
+    dropped,
+  };
+};
+
+export const createBundle = (session: DecisionSession): SessionBundle => ({
+  format: BUNDLE_FORMAT,
+  version: BUNDLE_VERSION,
+  exportedAt: new Date().toISOString(),
+  settings: {
+    provider: getActiveProvider().id,
+    analysisMode: getAnalysisMode(),
+  },
+  session,
+});
+
+export const serializeBundle = (bundle: SessionBundle): string => JSON.stringify(bundle, null, 2);
+
+// Parses, upgrades and checks a bundle; `migratedFrom` is set when the file used an older version,
+// `dropped` lists analyses that were unusable and left out
+export const parseBundle = (text: string): { bundle: SessionBundle; migratedFrom?: number; dropped: string[] } => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new BundleError("The file is not valid JSON.");
+  }
+
+  const original = detectVersion(raw);
+  if (original > BUNDLE_VERSION) {
+    throw new BundleError(`The file was made by a newer version of Kompass (bundle v${original}); this one reads up to v${BUNDLE_VERSION}.`);
+  }
+
+  let bundle: any = raw;
+  for (let version = original; version < BUNDLE_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new BundleError(`Bundle v${version} can no longer be imported.`);
+    bundle = migrate(bundle);
+  }
+
+  if (!isObject(bundle.session) || !(isObject(bundle.session.chat) || Array.isArray(bundle.session.messages))) {
+    throw new BundleError("The file does not contain a conversation.");
+  }
+
+  const { session, dropped } = checkSession(reviveSession(bundle.session));
+  return {
+    bundle: {
+      format: BUNDLE_FORMAT,
+      version: BUNDLE_VERSION,
+      exportedAt: typeof bundle.exportedAt === "string" ? bundle.exportedAt : new Date().toISOString(),
+      settings: isObject(bundle.settings) ? bundle.settings : {},
+      session,
+    },
+    ...(original < BUNDLE_VERSION ? { migratedFrom: original } : {}),
+    dropped,
+  };
+};
+
+// Adopts the bundle's settings where they work here: a provider without credentials on this
+// machine is skipped rather than selected
+export const applyBundleSettings = (settings: BundleSettings) => {
+  if (settings.analysisMode === "unified" || settings.analysisMode === "detailed") {
+    setAnalysisMode(settings.analysisMode);
+  }
+  const provider = settings.provider ? getProvider(settings.provider) : undefined;
+  if (provider?.isConfigured()) setActiveProvider(provider.id);
+};
@@ -0,0 +1,109 @@
+// Persistence for decision sessions
+// Sessions live in localStorage so a page refresh does not lose the conversation or its analyses.
+
+import { ChatNode, ChatTree, DecisionSession, Message } from '../types';
+import { createId } from '../utils/id';
+import { createChatTree } from '../utils/chatTree';
+
+const SESSIONS_KEY = 'kompass-sessions';
+const ACTIVE_SESSION_KEY = 'kompass-active-session';
+
+export const DEFAULT_SESSION_NAME = 'New Decision';
+
+export const createEmptySession = (name: string = DEFAULT_SESSION_NAME): DecisionSession => {
+  const now = Date.now();
+  return {
+    id: createId(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    chat: createChatTree(),
+    analyzedLeafId: null,
+    decisionModel: null,
+    mindMap: null,
+    mindMapEdits: [],
+    decisionTree: null,
+    swot: null,
+    costBenefit: null,
+    comparison: null,
+    timeline: null,
+    projections: [],
+  };
+};
+
+// Deep copy with a fresh ID - used for "duplicate"
+export const cloneSession = (session: DecisionSession, name: string): DecisionSession => {
+  const now = Date.now();
+  const copy = reviveSession(JSON.parse(JSON.stringify(session)));
+  return { ...copy, id: createId(), name, createdAt: now, updatedAt: now };
+};
+
+const reviveMessage = <T extends Message>(m: T): T => ({
+  ...m,
+  timestamp: new Date(m.timestamp),
+  isStreaming: false, // A stream cannot survive a reload
+});
+
+const reviveChat = (raw: any): ChatTree => {
+  // Sessions saved before branching stored a flat message list
+  if (!raw?.chat && Array.isArray(raw?.messages)) {
+    return createChatTree(raw.messages.map(reviveMessage));
+  }
+  const chat = raw?.chat;
+  if (!chat?.nodes) return createChatTree();
+  const nodes: Record<string, ChatNode> = {};
+  Object.entries(chat.nodes as Record<string, ChatNode>).forEach(([id, node]) => {
+    nodes[id] = reviveMessage(node);
+  });
+  return { nodes, children: chat.children || {}, selected: chat.selected || {} };
+};
+
+// JSON turns Dates into strings; bring message timestamps back and fill fields missing from older saves
+export const reviveSession = (raw: any): DecisionSession => {
+  const empty = createEmptySession(raw?.name || DEFAULT_SESSION_NAME);
+  const { messages: _legacyMessages, ...rest } = raw || {};
+  return {
+    ...empty,
+    ...rest,
+    id: raw?.id || empty.id,
+    chat: reviveChat(raw),
+    projections: Array.isArray(raw?.projections) ? raw.projections : [],
+  };
+};
+
+export const loadSessions = (): DecisionSession[] => {
+  try {
+    const stored = localStorage.getItem(SESSIONS_KEY);
+    if (!stored) return [];
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed.map(reviveSession) : [];
+  } catch (e) {
+    console.warn("Failed to load saved sessions:", e);
+    return [];
+  }
+};
+
+// Returns false when the sessions could not be stored at all
+export const saveSessions = (sessions: DecisionSession[]): boolean => {
+  try {
+    localStorage.setItem(SESSIONS_KEY, JSON.stringify(sessions));
+    return true;
+  } catch (e) {
+    // Most likely the storage quota is exhausted
+    console.warn("Failed to save sessions:", e);
+  }
+  // Analyses kept for other branches can be rebuilt by analyzing again, so they are given up first
+  try {
+    localStorage.setItem(SESSIONS_KEY, JSON.stringify(sessions.map(({ analysesByLeaf: _cached, ...session }) => session)));
+    return true;
+  } catch (e) {
+    console.warn("Failed to save sessions without branch analyses:", e);
+    return false;
+  }
+};
+
+export const loadActiveSessionId = (): string | null => localStorage.getItem(ACTIVE_SESSION_KEY);
+
+export const saveActiveSessionId = (id: string) => {
+  localStorage.setItem(ACTIVE_SESSION_KEY, id);
+};
@@ -0,0 +1,172 @@
+// Read-only share links
+// A shared decision travels inside the URL: the session bundle (see sessionBundle) is deflated and
+// base64url-encoded into /share/<payload>, so no server is involved. Decisions too large for a link
+// are kept as a local snapshot instead (/share/local-<session id>), which only opens in this browser.
+// There is one snapshot per session, refreshed on every share, and only the latest few are kept.
+// Links leave out what the viewer can rebuild: the analyses kept for other branches, and views that are
+// exactly what the unified model derives (they are derived again on open).
+
+import { DecisionSession } from "../types";
+import { DerivedAnalysis, deriveAnalysis } from "../utils/decisionModel";
+import { buildRoute } from "../utils/routing";
+import { BundleError, createBundle, parseBundle } from "./sessionBundle";
+import { cloneSession, loadSessions, saveActiveSessionId, saveSessions } from "./sessionStore";
+
+const SNAPSHOT_PREFIX = "local-";
+const SNAPSHOTS_KEY = "kompass-share-snapshots";
+
+// Snapshots share localStorage with the sessions themselves
+const MAX_SNAPSHOTS = 5;
+
+// Longest payload put into a link; proxies and chat apps start truncating URLs beyond a few KB
+const MAX_LINK_PAYLOAD = 8000;
+
+// First character of a payload: how the rest is encoded
+const DEFLATED = "z";
+const PLAIN = "j";
+
+export interface ShareLink {
+  url: string;
+  isLocalSnapshot: boolean; // Only opens in this browser
+}
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = "";
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const base64 = text.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+// Pipes bytes through a (de)compression stream
+const transform = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> => {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+};
+
+const encodePayload = async (json: string): Promise<string> => {
+  const bytes = new TextEncoder().encode(json);
+  // Browsers without CompressionStream still get a working (longer) link
+  if (typeof CompressionStream === "undefined") return PLAIN + toBase64Url(bytes);
+  return DEFLATED + toBase64Url(await transform(bytes, new CompressionStream("deflate-raw")));
+};
+
+const decodePayload = async (payload: string): Promise<string> => {
+  const bytes = fromBase64Url(payload.slice(1));
+  if (payload[0] === PLAIN) return new TextDecoder().decode(bytes);
+  if (payload[0] !== DEFLATED) throw new BundleError("This share link is not recognised.");
+  if (typeof DecompressionStream === "undefined") {
+    throw new BundleError("This browser cannot open compressed share links.");
+  }
+  return new TextDecoder().decode(await transform(bytes, new DecompressionStream("deflate-raw")));
+};
+
+const shareUrl = (token: string) =>
+  window.location.origin + buildRoute({ shareToken: token, sessionId: null, tab: null, option: null });
+
+interface Snapshot {
+  json: string;
+  savedAt: number;
+}
+
+const loadSnapshots = (): Record<string, Snapshot> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SNAPSHOTS_KEY) || "{}");
+    // The first snapshots were stored as bare JSON strings
+    return Object.fromEntries(Object.entries(stored).map(([id, value]) => [
+      id,
+      typeof value === "string" ? { json: value, savedAt: 0 } : value as Snapshot,
+    ]));
+  } catch {
+    return {};
+  }
+};
+
+// Stores (or refreshes) the session's snapshot, keeping the most recent ones within MAX_SNAPSHOTS.
+// When storage is full the other snapshots are given up before reporting failure
+const saveSnapshot = (id: string, json: string) => {
+  const snapshot: Snapshot = { json, savedAt: Date.now() };
+  const others = Object.entries(loadSnapshots())
+    .filter(([otherId]) => otherId !== id)
+    .sort(([, a], [, b]) => b.savedAt - a.savedAt)
+    .slice(0, MAX_SNAPSHOTS - 1);
+  for (const kept of [others, []]) {
+    try {
+      localStorage.setItem(SNAPSHOTS_KEY, JSON.stringify(Object.fromEntries([[id, snapshot], ...kept])));
+      return;
+    } catch (e) {
+      console.warn("Failed to save share snapshot:", e);
+    }
+  }
+  throw new Error("This decision is too large for a link, and the browser storage is too full to keep a snapshot. Export it as a file instead.");
+};
+
+const DERIVED_VIEWS: (keyof DerivedAnalysis)[] = [
+  "mindMap", "decisionTree", "swot", "costBenefit", "comparison", "timeline", "projections"
+];
+
+// Drops the branch cache and the views the user has not changed since they were derived
+const compactForLink = (session: DecisionSession): DecisionSession => {
+  const { analysesByLeaf: _cached, ...compact } = session;
+  if (!session.decisionModel) return compact;
+  const derived = deriveAnalysis(session.decisionModel);
+  DERIVED_VIEWS.forEach(view => {
+    if (JSON.stringify(session[view]) === JSON.stringify(derived[view])) {
+      Object.assign(compact, { [view]: view === "projections" ? [] : null });
+    }
+  });
+  return compact;
+};
+
+// Puts back the views compactForLink left out
+const expandFromLink = (session: DecisionSession): DecisionSession => {
+  if (!session.decisionModel) return session;
+  const derived = deriveAnalysis(session.decisionModel);
+  const expanded = { ...session };
+  DERIVED_VIEWS.forEach(view => {
+    const missing = view === "projections" ? !session.projections.length : !session[view];
+    if (missing) Object.assign(expanded, { [view]: derived[view] });
+  });
+  return expanded;
+};
+
+export const createShareLink = async (session: DecisionSession): Promise<ShareLink> => {
+  // Settings stay with the sharer; the viewer cannot run anything anyway
+  const json = JSON.stringify({ ...createBundle(compactForLink(session)), settings: {} });
+  const payload = await encodePayload(json);
+  if (payload.length <= MAX_LINK_PAYLOAD) {
+    return { url: shareUrl(payload), isLocalSnapshot: false };
+  }
+
+  saveSnapshot(session.id, json);
+  return { url: shareUrl(SNAPSHOT_PREFIX + session.id), isLocalSnapshot: true };
+};
+
+export const openShareToken = async (token: string): Promise<DecisionSession> => {
+  let json: string;
+  if (token.startsWith(SNAPSHOT_PREFIX)) {
+    const stored = loadSnapshots()[token.slice(SNAPSHOT_PREFIX.length)];
+    if (!stored) throw new BundleError("This snapshot was shared from another browser, or has since been replaced, and is not available here.");
+    json = stored.json;
+  } else {
+    try {
+      json = await decodePayload(token);
+    } catch (e) {
+      if (e instanceof BundleError) throw e;
+      throw new BundleError("This share link is damaged or incomplete.");
+    }
+  }
+  return expandFromLink(parseBundle(json).bundle.session);
+};
+
+// "Save a copy" from the viewer: stored as a new session under a fresh id, which is returned
+export const saveSharedCopy = (session: DecisionSession): string => {
+  const copy = cloneSession(session, session.name);
+  saveSessions([copy, ...loadSessions()]);
+  saveActiveSessionId(copy.id);
+  return copy.id;
+};
@@ -0,0 +1,37 @@
+// Client for the simulation worker
+// One short-lived worker per run; aborting terminates it so a superseded run stops using the CPU.
+
+import { SimulationInput, SimulationResult } from '../utils/monteCarlo';
+
+export const runSimulation = (input: SimulationInput, signal?: AbortSignal): Promise<SimulationResult> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Simulation aborted', 'AbortError'));
+      return;
+    }
+
+    const worker = new Worker(new URL('./simulation.worker.ts', import.meta.url), { type: 'module' });
+
+    const onAbort = () => {
+      worker.terminate();
+      reject(new DOMException('Simulation aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const finish = () => {
+      signal?.removeEventListener('abort', onAbort);
+      worker.terminate();
+    };
+
+    worker.onmessage = (event: MessageEvent<{ result?: SimulationResult; error?: string }>) => {
+      finish();
+      if (event.data.result) resolve(event.data.result);
+      else reject(new Error(event.data.error || 'Simulation failed'));
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'Simulation worker crashed'));
+    };
+
+    worker.postMessage(input);
+  });
@@ -0,0 +1,12 @@
+// Runs the Monte Carlo simulation off the main thread
+import { simulate, SimulationInput } from '../utils/monteCarlo';
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (event: MessageEvent<SimulationInput>) => {
+  try {
+    ctx.postMessage({ result: simulate(event.data) });
+  } catch (err) {
+    ctx.postMessage({ error: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -3,6 +3,7 @@ export interface Message {
   text: string;
   timestamp: Date;
   isStreaming?: boolean;
+  isError?: boolean; // Shown in the chat but excluded from the model context
 }
 
 // Mind Map Types
@@ -14,6 +15,19 @@ export interface MindMapNode {
   weight?: number; // 1-10 scale for node size importance
   isRecommendation?: boolean; // If AI selects this as the best choice
   collapsed?: boolean;
+  userEdited?: boolean; // Changed or added by the user; merges with regenerated maps keep this version
+  originalName?: string; // Name before the user renamed the node, so regenerated maps still match it
+  deletedChildren?: string[]; // Children the user deleted; merges don't bring them back
+  change?: 'added' | 'removed' | 'changed'; // What the last merge with a regenerated map did to this node
+  provisional?: boolean; // Parsed from a streaming reply; never stored, replaced by the generated map
+}
+
+// A change the user made to the mind map, reported to the model with the next chat turn
+export interface MindMapEdit {
+  kind: 'rename' | 'add' | 'delete' | 'retype' | 'recommend' | 'weight';
+  nodeName: string;
+  from?: string;
+  to?: string;
 }
 
 export interface MindMapLink {
@@ -42,6 +56,7 @@ export interface ComparisonCriteria {
 export interface ComparisonScore {
   criteria: string;
   score: number;
+  aiScore?: number; // Original AI score, set when the user overrides this cell
 }
 
 export interface ComparisonRow {
@@ -54,6 +69,7 @@ export interface ComparisonRow {
 export interface ComparisonData {
   criteria: string[];
   rows: ComparisonRow[];
+  weights?: Record<string, number>; // Criterion name -> importance 1-10 (default 5)
 }
 
 export interface VisualizationState {
@@ -65,12 +81,22 @@ export interface VisualizationState {
 }
 
 // Decision Tree Types
+// Uncertainty around a point estimate, sampled by the Monte Carlo simulation
+export interface Estimate {
+  min: number;
+  likely: number;
+  max: number;
+  distribution?: 'triangular' | 'pert' | 'uniform'; // Defaults to triangular
+}
+
 export interface DecisionTreeNode {
   id: string;
   label: string;
   type: 'decision' | 'chance' | 'outcome';
   probability?: number; // 0-100 percentage for chance nodes
+  probabilityRange?: Estimate; // 0-100
   value?: number; // Outcome value/score
+  valueRange?: Estimate; // 0-10
   sentiment?: 'positive' | 'negative' | 'neutral';
   children?: DecisionTreeNode[];
 }
@@ -103,6 +129,7 @@ export interface CostBenefitItem {
   category: CostBenefitCategory;
   description: string;
   magnitude: number; // 1-10 scale
+  magnitudeRange?: Estimate; // 0-10
 }
 
 export interface CostBenefitData {
@@ -135,4 +162,88 @@ export interface TimelineData {
   milestones: TimelineMilestone[];
   options: string[]; // List of option names for filtering
   timeHorizon: 'short' | 'medium' | 'long'; // Default view
-}
\ No newline at end of file
+}
+// Unified Analysis Types
+// One canonical option/criteria model is extracted from the conversation and every view is derived
+// from it, so option names and the recommendation agree across tabs.
+export interface DecisionCriterion {
+  name: string;
+  weight: number; // 1-10 importance to the user
+}
+
+export interface DecisionOutcome {
+  label: string;
+  probability: number; // 0-100, sums to 100 per option
+  sentiment: 'positive' | 'negative' | 'neutral';
+  value: number; // 0-10 payoff
+}
+
+export interface DecisionMilestone {
+  date: string; // e.g., "1 week", "3 months", "1 year"
+  label: string;
+  description?: string;
+  type: MilestoneType;
+}
+
+export interface DecisionOption {
+  id: string;
+  name: string;
+  summary: string;
+  scores: Record<string, number>; // Criterion name -> 1-10
+  strengths: string[];
+  weaknesses: string[];
+  opportunities: string[];
+  threats: string[];
+  costs: CostBenefitItem[];
+  benefits: CostBenefitItem[];
+  outcomes: DecisionOutcome[];
+  milestones: DecisionMilestone[];
+  projection: ProjectionPoint[]; // Satisfaction 0-100 over time
+}
+
+export interface DecisionModel {
+  question: string;
+  criteria: DecisionCriterion[];
+  options: DecisionOption[];
+  recommendedOptionId: string;
+  rationale: string;
+}
+
+// Chat Branching Types
+export interface ChatNode extends Message {
+  id: string;
+  parentId: string | null; // null for top-level messages
+}
+
+export interface ChatTree {
+  nodes: Record<string, ChatNode>;
+  children: Record<string, string[]>; // Ordered alternatives per parent ID (top level under CHAT_ROOT)
+  selected: Record<string, string>; // Child on the active branch, per parent ID
+}
+
+// Decision Session Types
+
+// The views one full analysis produced, kept per branch so flipping back restores them
+export type AnalysisSnapshot = Pick<
+  DecisionSession,
+  'decisionModel' | 'mindMap' | 'decisionTree' | 'swot' | 'costBenefit' | 'comparison' | 'timeline' | 'projections'
+>;
+
+export interface DecisionSession {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  chat: ChatTree;
+  analyzedLeafId?: string | null; // Active chat leaf when the full analysis last ran
+  analysesByLeaf?: Record<string, AnalysisSnapshot>; // Earlier analyses by the leaf they ran on
+  decisionModel?: DecisionModel | null; // Source of the views when analyzed in unified mode
+  mindMap: MindMapNode | null;
+  mindMapEdits?: MindMapEdit[]; // User edits to the map not yet sent with a chat turn
+  decisionTree: DecisionTreeData | null;
+  swot: SWOTAnalysis | null;
+  costBenefit: CostBenefitAnalysis | null;
+  comparison: ComparisonData | null;
+  timeline: TimelineData | null;
+  projections: ProjectionScenario[];
+}
@@ -0,0 +1,52 @@
+// Per-branch analysis cache
+// The session shows one analysis at a time; each one is also kept under the chat leaf it ran on, so
+// switching to a branch that was analyzed before restores its views instead of running again.
+// All functions are pure.
+
+import { AnalysisSnapshot, DecisionSession } from '../types';
+import { getActivePath } from './chatTree';
+
+// Serialized size (in characters) all of a session's cached analyses may take up; the oldest are dropped
+// beyond it, since every session is saved to localStorage and its quota is a few megabytes for all of them
+export const MAX_CACHE_CHARS = 250000;
+
+const snapshotOf = (session: DecisionSession): AnalysisSnapshot => ({
+  decisionModel: session.decisionModel ?? null,
+  mindMap: session.mindMap,
+  decisionTree: session.decisionTree,
+  swot: session.swot,
+  costBenefit: session.costBenefit,
+  comparison: session.comparison,
+  timeline: session.timeline,
+  projections: session.projections,
+});
+
+// Stores the analysis currently shown under the leaf it was built on (edits to it included)
+export const cacheAnalysis = (session: DecisionSession): DecisionSession => {
+  const leafId = session.analyzedLeafId;
+  if (!leafId || !session.chat.nodes[leafId]) return session;
+  // Re-inserting moves the entry to the end, so insertion order doubles as recency
+  const { [leafId]: _previous, ...others } = session.analysesByLeaf || {};
+  const entries = [...Object.entries(others).filter(([id]) => session.chat.nodes[id]), [leafId, snapshotOf(session)] as const];
+
+  // Newest first until the size budget runs out; the current analysis is kept whatever its size
+  let budget = MAX_CACHE_CHARS;
+  const kept = entries.reverse().filter(([, snapshot], i) => {
+    budget -= JSON.stringify(snapshot).length;
+    return i === 0 || budget >= 0;
+  });
+  return { ...session, analysesByLeaf: Object.fromEntries(kept.reverse()) };
+};
+
+// Swaps in the cached analysis closest to the end of the active branch. Returns null when the
+// branch has none; an analysis already on the branch counts as found.
+export const restoreAnalysis = (session: DecisionSession): DecisionSession | null => {
+  const path = getActivePath(session.chat);
+  for (let i = path.length - 1; i >= 0; i--) {
+    const id = path[i].id;
+    if (id === session.analyzedLeafId) return session;
+    const snapshot = session.analysesByLeaf?.[id];
+    if (snapshot) return { ...session, ...snapshot, analyzedLeafId: id };
+  }
+  return null;
+};
@@ -0,0 +1,141 @@
+// Branching chat history
+// Messages form a tree: editing a user message or regenerating a reply adds a sibling instead of
+// overwriting, and the conversation shown (and sent to the model) is the currently selected path.
+// All operations are pure and return a new tree.
+
+import { ChatNode, ChatTree, Message } from '../types';
+import { createId } from './id';
+
+export const CHAT_ROOT = 'root';
+
+const parentKey = (parentId: string | null) => parentId ?? CHAT_ROOT;
+
+export const createChatTree = (messages: Message[] = []): ChatTree => {
+  let tree: ChatTree = { nodes: {}, children: {}, selected: {} };
+  let parentId: string | null = null;
+  for (const message of messages) {
+    const result = addMessage(tree, parentId, message);
+    tree = result.tree;
+    parentId = result.node.id;
+  }
+  return tree;
+};
+
+// Walks from the root following the selected child at every level
+export const getActivePath = (tree: ChatTree): ChatNode[] => {
+  const path: ChatNode[] = [];
+  let key = CHAT_ROOT;
+  while (tree.selected[key]) {
+    const node = tree.nodes[tree.selected[key]];
+    if (!node) break;
+    path.push(node);
+    key = node.id;
+  }
+  return path;
+};
+
+export const getActiveLeafId = (tree: ChatTree): string | null => {
+  const path = getActivePath(tree);
+  return path.length ? path[path.length - 1].id : null;
+};
+
+// Messages from the root down to (and including) the given node
+export const getPathTo = (tree: ChatTree, id: string): ChatNode[] => {
+  const path: ChatNode[] = [];
+  let node: ChatNode | undefined = tree.nodes[id];
+  while (node) {
+    path.unshift(node);
+    node = node.parentId ? tree.nodes[node.parentId] : undefined;
+  }
+  return path;
+};
+
+// Adds a message under parentId and makes it the active branch
+export const addMessage = (
+  tree: ChatTree,
+  parentId: string | null,
+  message: Message & { id?: string }
+): { tree: ChatTree; node: ChatNode } => {
+  const node: ChatNode = { ...message, id: message.id || createId(), parentId };
+  const key = parentKey(parentId);
+  return {
+    node,
+    tree: {
+      nodes: { ...tree.nodes, [node.id]: node },
+      children: { ...tree.children, [key]: [...(tree.children[key] || []), node.id] },
+      selected: { ...tree.selected, [key]: node.id },
+    },
+  };
+};
+
+// Adds an alternative version of an existing message (same parent) and switches to it
+export const addSibling = (tree: ChatTree, siblingOf: string, message: Message & { id?: string }) => {
+  const existing = tree.nodes[siblingOf];
+  if (!existing) throw new Error(`Unknown message: ${siblingOf}`);
+  return addMessage(tree, existing.parentId, message);
+};
+
+export const updateMessage = (tree: ChatTree, id: string, patch: Partial<Message>): ChatTree => {
+  const node = tree.nodes[id];
+  if (!node) return tree;
+  return { ...tree, nodes: { ...tree.nodes, [id]: { ...node, ...patch } } };
+};
+
+// Drops a message that has no replies (e.g. a reply stopped before any text arrived)
+export const removeMessage = (tree: ChatTree, id: string): ChatTree => {
+  const node = tree.nodes[id];
+  if (!node || tree.children[id]?.length) return tree;
+  const key = parentKey(node.parentId);
+  const siblings = (tree.children[key] || []).filter(s => s !== id);
+  const { [id]: _removed, ...nodes } = tree.nodes;
+  const selected = { ...tree.selected };
+  if (selected[key] === id) {
+    if (siblings.length) selected[key] = siblings[siblings.length - 1];
+    else delete selected[key];
+  }
+  return { nodes, children: { ...tree.children, [key]: siblings }, selected };
+};
+
+export const getSiblingInfo = (tree: ChatTree, id: string): { index: number; count: number } => {
+  const node = tree.nodes[id];
+  const siblings = node ? tree.children[parentKey(node.parentId)] || [] : [];
+  return { index: siblings.indexOf(id), count: siblings.length };
+};
+
+// Moves the active branch to the previous/next alternative of a message
+export const switchSibling = (tree: ChatTree, id: string, direction: -1 | 1): ChatTree => {
+  const node = tree.nodes[id];
+  if (!node) return tree;
+  const key = parentKey(node.parentId);
+  const siblings = tree.children[key] || [];
+  const target = siblings[siblings.indexOf(id) + direction];
+  if (!target) return tree;
+  return { ...tree, selected: { ...tree.selected, [key]: target } };
+};
+
+// First structural problem of a tree that came from outside the app (imported file, share link), or
+// null when it is sound: every message is reachable from the root exactly once through the children
+// lists, links agree in both directions, and every selection points at an existing alternative
+export const findChatTreeProblem = (tree: ChatTree): string | null => {
+  const seen = new Set<string>();
+  const queue = [CHAT_ROOT];
+  while (queue.length) {
+    const key = queue.shift()!;
+    const ids = tree.children[key] || [];
+    if (!Array.isArray(ids)) return 'a reply list is not a list';
+    for (const id of ids) {
+      const node = tree.nodes[id];
+      if (!node || node.id !== id) return `message "${id}" is missing`;
+      if (parentKey(node.parentId) !== key || seen.has(id)) return `message "${id}" is linked to the wrong place`;
+      if ((node.role !== 'user' && node.role !== 'model') || typeof node.text !== 'string') {
+        return `message "${id}" is malformed`;
+      }
+      seen.add(id);
+      queue.push(id);
+    }
+  }
+  if (seen.size !== Object.keys(tree.nodes).length) return 'some messages are not part of the conversation';
+  const badSelection = Object.entries(tree.selected).find(([key, id]) => !(tree.children[key] || []).includes(id));
+  if (badSelection) return `the selected reply "${badSelection[1]}" does not exist`;
+  return null;
+};
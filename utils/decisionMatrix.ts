@@ -0,0 +1,109 @@
+// Weighted decision matrix
+// Pure edits on ComparisonData. Every edit re-ranks the rows so the recommended option always
+// follows the user's weights and score overrides.
+
+import { ComparisonData, ComparisonRow } from '../types';
+
+export const DEFAULT_WEIGHT = 5;
+const NEW_SCORE = 5;
+
+export const getWeight = (data: ComparisonData, criterion: string): number =>
+  data.weights?.[criterion] ?? DEFAULT_WEIGHT;
+
+const scoreFor = (row: ComparisonRow, criterion: string): number =>
+  row.scores.find(s => s.criteria === criterion)?.score ?? 0;
+
+// Importance-weighted average of a row's scores (0-10)
+export const weightedScore = (data: ComparisonData, row: ComparisonRow): number => {
+  const totalWeight = data.criteria.reduce((sum, c) => sum + getWeight(data, c), 0);
+  if (totalWeight === 0) return 0;
+  return data.criteria.reduce((sum, c) => sum + getWeight(data, c) * scoreFor(row, c), 0) / totalWeight;
+};
+
+// 1-based rank per row (ties share a rank), in row order
+export const rankRows = (data: ComparisonData): number[] => {
+  const scores = data.rows.map(row => weightedScore(data, row));
+  return scores.map(score => scores.filter(other => other > score).length + 1);
+};
+
+// Index of the best weighted row (the first one on a tie), or -1 without rows.
+// Views read this rather than row.isRecommended, which is the AI's pick until the first edit
+export const recommendedRowIndex = (data: ComparisonData): number => {
+  if (data.rows.length === 0) return -1;
+  const scores = data.rows.map(row => weightedScore(data, row));
+  return scores.indexOf(Math.max(...scores));
+};
+
+// Marks the best weighted row as recommended
+export const recomputeRecommendation = (data: ComparisonData): ComparisonData => {
+  if (data.rows.length === 0) return data;
+  const best = recommendedRowIndex(data);
+  return { ...data, rows: data.rows.map((row, i) => ({ ...row, isRecommended: i === best })) };
+};
+
+const uniqueName = (name: string, existing: string[]): string => {
+  const taken = new Set(existing.map(n => n.toLowerCase()));
+  if (!taken.has(name.toLowerCase())) return name;
+  let i = 2;
+  while (taken.has(`${name} ${i}`.toLowerCase())) i++;
+  return `${name} ${i}`;
+};
+
+export const setWeight = (data: ComparisonData, criterion: string, weight: number): ComparisonData =>
+  recomputeRecommendation({ ...data, weights: { ...data.weights, [criterion]: weight } });
+
+// Overrides one cell, remembering the AI's value so it can be restored
+export const setScore = (data: ComparisonData, rowIndex: number, criterion: string, score: number): ComparisonData =>
+  recomputeRecommendation({
+    ...data,
+    rows: data.rows.map((row, i) => {
+      if (i !== rowIndex) return row;
+      const existing = row.scores.find(s => s.criteria === criterion);
+      const aiScore = existing?.aiScore ?? existing?.score;
+      const next = { criteria: criterion, score, ...(aiScore !== undefined && aiScore !== score ? { aiScore } : {}) };
+      return {
+        ...row,
+        scores: existing
+          ? row.scores.map(s => s.criteria === criterion ? next : s)
+          : [...row.scores, next],
+      };
+    }),
+  });
+
+export const resetScore = (data: ComparisonData, rowIndex: number, criterion: string): ComparisonData => {
+  const aiScore = data.rows[rowIndex]?.scores.find(s => s.criteria === criterion)?.aiScore;
+  return aiScore === undefined ? data : setScore(data, rowIndex, criterion, aiScore);
+};
+
+export const addCriterion = (data: ComparisonData, name: string): ComparisonData => {
+  const criterion = uniqueName(name.trim(), data.criteria);
+  return recomputeRecommendation({
+    ...data,
+    criteria: [...data.criteria, criterion],
+    weights: { ...data.weights, [criterion]: DEFAULT_WEIGHT },
+    rows: data.rows.map(row => ({ ...row, scores: [...row.scores, { criteria: criterion, score: NEW_SCORE }] })),
+  });
+};
+
+export const removeCriterion = (data: ComparisonData, criterion: string): ComparisonData => {
+  const { [criterion]: _removed, ...weights } = data.weights || {};
+  return recomputeRecommendation({
+    ...data,
+    criteria: data.criteria.filter(c => c !== criterion),
+    weights,
+    rows: data.rows.map(row => ({ ...row, scores: row.scores.filter(s => s.criteria !== criterion) })),
+  });
+};
+
+export const addOption = (data: ComparisonData, name: string): ComparisonData => recomputeRecommendation({
+  ...data,
+  rows: [...data.rows, {
+    optionName: uniqueName(name.trim(), data.rows.map(r => r.optionName)),
+    isRecommended: false,
+    summary: '',
+    scores: data.criteria.map(criteria => ({ criteria, score: NEW_SCORE })),
+  }],
+});
+
+export const removeOption = (data: ComparisonData, rowIndex: number): ComparisonData =>
+  recomputeRecommendation({ ...data, rows: data.rows.filter((_, i) => i !== rowIndex) });
@@ -0,0 +1,172 @@
+// Derives every visualization from one canonical DecisionModel
+// Names, IDs and the recommendation come from the model alone, so all tabs agree with each other.
+// All functions are pure.
+
+import {
+  DecisionModel,
+  DecisionOption,
+  DecisionCriterion,
+  MindMapNode,
+  DecisionTreeData,
+  SWOTAnalysis,
+  CostBenefitAnalysis,
+  ComparisonData,
+  TimelineData,
+  ProjectionScenario
+} from '../types';
+
+export interface DerivedAnalysis {
+  mindMap: MindMapNode;
+  decisionTree: DecisionTreeData;
+  swot: SWOTAnalysis;
+  costBenefit: CostBenefitAnalysis;
+  comparison: ComparisonData;
+  timeline: TimelineData;
+  projections: ProjectionScenario[];
+}
+
+// Importance-weighted average of an option's criterion scores (0-10)
+export const weightedScore = (option: DecisionOption, criteria: DecisionCriterion[]): number => {
+  const totalWeight = criteria.reduce((sum, c) => sum + c.weight, 0);
+  if (totalWeight === 0) return 0;
+  return criteria.reduce((sum, c) => sum + c.weight * (option.scores[c.name] ?? 0), 0) / totalWeight;
+};
+
+const recommendedName = (model: DecisionModel) =>
+  model.options.find(o => o.id === model.recommendedOptionId)?.name;
+
+// Net balance of SWOT points, scaled to -100..100
+const swotScore = (option: DecisionOption): number => {
+  const positive = option.strengths.length + option.opportunities.length;
+  const negative = option.weaknesses.length + option.threats.length;
+  const total = positive + negative;
+  return total === 0 ? 0 : Math.round(((positive - negative) / total) * 100);
+};
+
+export const deriveMindMap = (model: DecisionModel): MindMapNode => ({
+  id: 'root',
+  name: model.question,
+  type: 'root',
+  children: [
+    {
+      id: 'options',
+      name: 'Options',
+      type: 'topic',
+      weight: 9,
+      children: model.options.map(option => ({
+        id: `option-${option.id}`,
+        name: option.name,
+        type: 'option' as const,
+        weight: Math.max(1, Math.round(weightedScore(option, model.criteria))),
+        isRecommendation: option.id === model.recommendedOptionId,
+        children: [
+          ...option.strengths.slice(0, 2).map((text, i) => ({
+            id: `${option.id}-pro-${i}`, name: text, type: 'pro' as const, weight: 5
+          })),
+          ...option.weaknesses.slice(0, 2).map((text, i) => ({
+            id: `${option.id}-con-${i}`, name: text, type: 'con' as const, weight: 5
+          })),
+        ],
+      })),
+    },
+    {
+      id: 'criteria',
+      name: 'What Matters',
+      type: 'topic',
+      weight: 7,
+      children: model.criteria.map((criterion, i) => ({
+        id: `criterion-${i}`,
+        name: criterion.name,
+        type: 'topic' as const,
+        weight: criterion.weight,
+      })),
+    },
+  ],
+});
+
+export const deriveDecisionTree = (model: DecisionModel): DecisionTreeData => ({
+  root: {
+    id: 'decision',
+    label: model.question,
+    type: 'decision',
+    children: model.options.map(option => ({
+      id: `option-${option.id}`,
+      label: option.name,
+      type: option.outcomes.length ? 'chance' : 'outcome',
+      ...(option.outcomes.length ? {
+        children: option.outcomes.map((outcome, i) => ({
+          id: `${option.id}-outcome-${i}`,
+          label: outcome.label,
+          type: 'outcome' as const,
+          probability: outcome.probability,
+          sentiment: outcome.sentiment,
+          value: outcome.value,
+        })),
+      } : {}),
+    })),
+  },
+  recommendation: `option-${model.recommendedOptionId}`,
+});
+
+export const deriveSWOT = (model: DecisionModel): SWOTAnalysis => ({
+  options: model.options.map(option => ({
+    optionName: option.name,
+    strengths: option.strengths,
+    weaknesses: option.weaknesses,
+    opportunities: option.opportunities,
+    threats: option.threats,
+    overallScore: swotScore(option),
+  })),
+  recommendedOption: recommendedName(model),
+});
+
+export const deriveCostBenefit = (model: DecisionModel): CostBenefitAnalysis => ({
+  options: model.options.map(option => ({
+    optionName: option.name,
+    costs: option.costs,
+    benefits: option.benefits,
+    netScore: option.benefits.reduce((s, b) => s + b.magnitude, 0) - option.costs.reduce((s, c) => s + c.magnitude, 0),
+    ...(option.id === model.recommendedOptionId && model.rationale ? { recommendation: model.rationale } : {}),
+  })),
+  bestOption: recommendedName(model),
+});
+
+export const deriveComparison = (model: DecisionModel): ComparisonData => ({
+  criteria: model.criteria.map(c => c.name),
+  rows: model.options.map(option => ({
+    optionName: option.name,
+    isRecommended: option.id === model.recommendedOptionId,
+    summary: option.summary,
+    scores: model.criteria.map(c => ({ criteria: c.name, score: option.scores[c.name] ?? 0 })),
+  })),
+  weights: Object.fromEntries(model.criteria.map(c => [c.name, c.weight])),
+});
+
+export const deriveTimeline = (model: DecisionModel): TimelineData => ({
+  milestones: model.options.flatMap(option => option.milestones.map((milestone, i) => ({
+    ...milestone,
+    id: `${option.id}-m${i + 1}`,
+    optionId: option.id,
+    optionName: option.name,
+  }))),
+  options: model.options.map(o => o.name),
+  timeHorizon: 'medium',
+});
+
+export const deriveProjections = (model: DecisionModel): ProjectionScenario[] => model.options
+  .filter(option => option.projection.length > 0)
+  .map(option => ({
+    name: option.name,
+    description: option.summary,
+    data: option.projection,
+  }));
+
+export const deriveAnalysis = (model: DecisionModel): DerivedAnalysis => ({
+  mindMap: deriveMindMap(model),
+  decisionTree: deriveDecisionTree(model),
+  swot: deriveSWOT(model),
+  costBenefit: deriveCostBenefit(model),
+  comparison: deriveComparison(model),
+  timeline: deriveTimeline(model),
+  projections: deriveProjections(model),
+});
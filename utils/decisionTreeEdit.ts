@@ -0,0 +1,112 @@
+// Pure edits on DecisionTreeData
+// The AI draft is a starting point: branches can be added, edited, reordered and removed, and the
+// expected values are re-derived from the edited tree by decisionTreeMath.
+
+import { DecisionTreeData, DecisionTreeNode } from '../types';
+import { createId } from './id';
+
+export type NodePatch = Partial<Pick<DecisionTreeNode, 'label' | 'type' | 'probability' | 'value' | 'valueRange' | 'sentiment'>>;
+
+const NEW_VALUE = 5;
+
+const mapNode = (
+  node: DecisionTreeNode,
+  id: string,
+  fn: (node: DecisionTreeNode) => DecisionTreeNode
+): DecisionTreeNode => {
+  if (node.id === id) return fn(node);
+  if (!node.children) return node;
+  return { ...node, children: node.children.map(child => mapNode(child, id, fn)) };
+};
+
+export const findNode = (node: DecisionTreeNode, id: string): DecisionTreeNode | null => {
+  if (node.id === id) return node;
+  for (const child of node.children || []) {
+    const found = findNode(child, id);
+    if (found) return found;
+  }
+  return null;
+};
+
+export const findParent = (node: DecisionTreeNode, id: string): DecisionTreeNode | null => {
+  for (const child of node.children || []) {
+    if (child.id === id) return node;
+    const found = findParent(child, id);
+    if (found) return found;
+  }
+  return null;
+};
+
+const collectIds = (node: DecisionTreeNode, ids: Set<string> = new Set()): Set<string> => {
+  ids.add(node.id);
+  (node.children || []).forEach(child => collectIds(child, ids));
+  return ids;
+};
+
+// Undefined values in the patch clear the field (e.g. removing a probability)
+export const updateNode = (data: DecisionTreeData, id: string, patch: NodePatch): DecisionTreeData => ({
+  ...data,
+  root: mapNode(data.root, id, node => {
+    const next: DecisionTreeNode = { ...node, ...patch };
+    (Object.keys(patch) as (keyof NodePatch)[]).forEach(key => {
+      if (patch[key] === undefined) delete next[key];
+    });
+    return next;
+  }),
+});
+
+// Adds a branch under a node. Branching from an outcome turns it into a chance node.
+// Under a chance node the new branch takes whatever probability is left over.
+export const addBranch = (data: DecisionTreeData, parentId: string): { data: DecisionTreeData; id: string } => {
+  const id = createId();
+  const root = mapNode(data.root, parentId, parent => {
+    const children = parent.children || [];
+    const type = parent.type === 'decision' ? 'decision' : 'chance';
+    const child: DecisionTreeNode = {
+      id,
+      label: type === 'decision' ? 'New option' : 'New outcome',
+      type: 'outcome',
+      value: NEW_VALUE,
+      sentiment: 'neutral',
+    };
+    if (type === 'chance') {
+      const remaining = 100 - children.reduce((sum, c) => sum + (c.probability ?? 0), 0);
+      child.probability = children.length === 0 ? 100 : Math.max(0, Math.round(remaining));
+    }
+    return { ...parent, type, children: [...children, child] };
+  });
+  return { data: { ...data, root }, id };
+};
+
+// Removes a node and everything under it; the root cannot be removed
+export const removeSubtree = (data: DecisionTreeData, id: string): DecisionTreeData => {
+  const parent = findParent(data.root, id);
+  if (!parent) return data;
+  const removed = collectIds(findNode(data.root, id)!);
+  const root = mapNode(data.root, parent.id, node => {
+    const children = (node.children || []).filter(child => child.id !== id);
+    const { children: _old, ...rest } = node;
+    return children.length ? { ...rest, children } : rest;
+  });
+  const next: DecisionTreeData = { ...data, root };
+  if (next.recommendation && removed.has(next.recommendation)) delete next.recommendation;
+  return next;
+};
+
+// Moves a node to a new position among its siblings
+export const moveBranch = (data: DecisionTreeData, id: string, toIndex: number): DecisionTreeData => {
+  const parent = findParent(data.root, id);
+  if (!parent?.children) return data;
+  const from = parent.children.findIndex(child => child.id === id);
+  const to = Math.max(0, Math.min(parent.children.length - 1, toIndex));
+  if (from === to) return data;
+  return {
+    ...data,
+    root: mapNode(data.root, parent.id, node => {
+      const children = [...node.children!];
+      const [moved] = children.splice(from, 1);
+      children.splice(to, 0, moved);
+      return { ...node, children };
+    }),
+  };
+};
@@ -0,0 +1,132 @@
+// Expected-value rollback for decision trees
+// Outcomes carry their own value, chance nodes take the probability-weighted average of their
+// children, and decision nodes take the best child. The optimal strategy follows from the numbers,
+// not from whichever node the model happened to recommend.
+
+import { DecisionTreeData, DecisionTreeNode } from '../types';
+
+// Probabilities within this many points of 100 are treated as summing to 100
+const SUM_TOLERANCE = 0.5;
+
+export type ProbabilityIssue =
+  | 'normalized' // Stated probabilities didn't sum to 100 and were rescaled
+  | 'filled'; // Some or all children had no probability and shared the remainder
+
+export interface NodeEvaluation {
+  ev: number | null; // Null when nothing below the node has a value
+  probability?: number; // Probability used in the rollback (0-100), for children of chance nodes
+  probabilityIssue?: ProbabilityIssue; // Set on chance nodes whose children's probabilities were adjusted
+  statedProbabilitySum?: number; // What the children's probabilities summed to before adjustment
+  bestChildId?: string; // For decision nodes
+  isOptimal: boolean; // Part of the optimal strategy
+}
+
+export interface RollbackResult {
+  nodes: Record<string, NodeEvaluation>;
+  recommendation: string | null; // Best child of the root decision
+  warnings: string[];
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// Fills missing probabilities with an equal share of what's left, then rescales to 100
+export const resolveProbabilities = (children: Pick<DecisionTreeNode, 'probability'>[]): { probabilities: number[]; issue?: ProbabilityIssue; statedSum: number } => {
+  const stated = children.map(child => child.probability);
+  const statedSum = stated.reduce<number>((sum, p) => sum + (p ?? 0), 0);
+  const missing = stated.filter(p => p === undefined).length;
+  let issue: ProbabilityIssue | undefined;
+
+  let probabilities = stated.map(p => p ?? 0);
+  if (missing > 0) {
+    issue = 'filled';
+    const share = Math.max(0, 100 - statedSum) / missing;
+    probabilities = stated.map(p => p ?? share);
+  }
+
+  const total = probabilities.reduce((sum, p) => sum + p, 0);
+  if (total === 0) {
+    return { probabilities: children.map(() => 100 / children.length), issue: 'filled', statedSum };
+  }
+  if (Math.abs(total - 100) > SUM_TOLERANCE) {
+    issue = issue ?? 'normalized';
+  }
+  return { probabilities: probabilities.map(p => (p / total) * 100), issue, statedSum };
+};
+
+export const rollback = (data: DecisionTreeData): RollbackResult => {
+  const nodes: Record<string, NodeEvaluation> = {};
+  const warnings: string[] = [];
+
+  const evaluate = (node: DecisionTreeNode): number | null => {
+    const children = node.children || [];
+    const evaluation: NodeEvaluation = { ev: null, isOptimal: false };
+    nodes[node.id] = evaluation;
+
+    if (children.length === 0) {
+      evaluation.ev = node.value ?? null;
+      return evaluation.ev;
+    }
+
+    const childEVs = children.map(evaluate);
+
+    if (node.type === 'decision') {
+      let best: number | null = null;
+      children.forEach((child, i) => {
+        const ev = childEVs[i];
+        if (ev !== null && (best === null || ev > best)) {
+          best = ev;
+          evaluation.bestChildId = child.id;
+        }
+      });
+      evaluation.ev = best;
+      return best;
+    }
+
+    // Chance nodes (and outcomes that branch further) average over their children
+    const { probabilities, issue, statedSum } = resolveProbabilities(children);
+    children.forEach((child, i) => { nodes[child.id].probability = round2(probabilities[i]); });
+    if (issue) {
+      evaluation.probabilityIssue = issue;
+      evaluation.statedProbabilitySum = round2(statedSum);
+      warnings.push(issue === 'filled'
+        ? `"${node.label}": missing probabilities were filled in`
+        : `"${node.label}": probabilities summed to ${round2(statedSum)}% and were rescaled to 100%`);
+    }
+
+    // Children without a value drop out; the rest are re-weighted among themselves
+    let weighted = 0;
+    let weight = 0;
+    children.forEach((_, i) => {
+      const ev = childEVs[i];
+      if (ev === null) return;
+      weighted += probabilities[i] * ev;
+      weight += probabilities[i];
+    });
+    evaluation.ev = weight > 0 ? weighted / weight : null;
+    return evaluation.ev;
+  };
+
+  // Decision nodes keep only their best branch; chance nodes keep every branch
+  const markOptimal = (node: DecisionTreeNode) => {
+    const evaluation = nodes[node.id];
+    evaluation.isOptimal = true;
+    const children = node.children || [];
+    if (node.type === 'decision') {
+      const best = children.find(child => child.id === evaluation.bestChildId);
+      if (best) markOptimal(best);
+    } else {
+      children.forEach(markOptimal);
+    }
+  };
+
+  evaluate(data.root);
+  markOptimal(data.root);
+
+  return {
+    nodes,
+    recommendation: data.root.type === 'decision' ? nodes[data.root.id].bestChildId ?? null : null,
+    warnings,
+  };
+};
+
+export const formatEV = (ev: number | null): string => (ev === null ? '–' : ev.toFixed(1));
@@ -0,0 +1,31 @@
+// Browser-side file output: downloads and the print dialog
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+export const downloadText = (text: string, filename: string, type = 'text/plain') =>
+  downloadBlob(new Blob([text], { type: `${type};charset=utf-8` }), filename);
+
+// File-system friendly version of a session name
+export const toFilename = (name: string, fallback = 'decision') =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || fallback;
+
+// Opens the HTML in a new window and shows the print dialog, where it can be saved as a PDF.
+// Returns false when the browser blocked the popup.
+export const printHtml = (html: string): boolean => {
+  const win = window.open('', '_blank');
+  if (!win) return false;
+  win.document.open();
+  win.document.write(html);
+  win.document.close();
+  win.focus();
+  // Give the new document a moment to lay out before printing
+  win.setTimeout(() => win.print(), 250);
+  return true;
+};
@@ -0,0 +1,3 @@
+// Short, sortable-ish unique IDs (crypto.randomUUID is unavailable outside secure contexts)
+export const createId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
@@ -2,6 +2,7 @@
 // Parses AI response text directly to create mind map structure without API call
 
 import { MindMapNode, Message } from '../types';
+import { normalizeName } from './mindMapMerge';
 
 /**
  * Instantly generates a mind map from conversation text
@@ -197,4 +198,44 @@ const extractFromAIMessage = (text: string, msgIndex: number): MindMapNode[] =>
     return nodes;
 };
 
+// Parsed IDs change on every call, so they are rebuilt from the names to keep D3 from re-entering
+// every node on each streamed chunk (repeated names across replies are dropped to keep them unique)
+const asProvisional = (node: MindMapNode, parentId: string): MindMapNode => {
+    const id = node.type === 'root' ? node.id : `${parentId}/${normalizeName(node.name)}`;
+    const children = node.children?.filter((child, i, all) =>
+        all.findIndex(other => normalizeName(other.name) === normalizeName(child.name)) === i
+    );
+    return {
+        ...node,
+        id,
+        provisional: true,
+        ...(children ? { children: children.map(child => asProvisional(child, id)) } : {}),
+    };
+};
+
+// Names the current map already accounts for, including renamed and deleted nodes
+const collectNames = (node: MindMapNode, names: Set<string> = new Set()): Set<string> => {
+    [node.name, node.originalName, ...(node.deletedChildren || [])].forEach(name => {
+        if (name) names.add(normalizeName(name));
+    });
+    (node.children || []).forEach(child => collectNames(child, names));
+    return names;
+};
+
+/**
+ * Live first paint while a reply streams in
+ * Without a map yet, the parsed map is shown as a whole; otherwise whatever the reply mentions that
+ * the current map doesn't have is hung off its root. Either way the parsed nodes are marked provisional.
+ */
+export const overlayInstantMindMap = (current: MindMapNode | null, messages: Message[]): MindMapNode => {
+    const instant = asProvisional(generateInstantMindMap(messages), 'instant');
+    if (!current) return instant;
+
+    const known = collectNames(current);
+    const parsed = (instant.children || []).flatMap(topic => topic.children || []);
+    const fresh = parsed.filter(node => !known.has(normalizeName(node.name)));
+    if (fresh.length === 0) return current;
+    return { ...current, children: [...(current.children || []), ...fresh] };
+};
+
 export default generateInstantMindMap;
@@ -0,0 +1,138 @@
+// Pure edits on the mind map tree
+// Every edit also returns a MindMapEdit record so the next chat turn can tell the model what changed.
+
+import { MindMapEdit, MindMapNode } from '../types';
+import { createId } from './id';
+
+export type MindMapNodePatch = Partial<Pick<MindMapNode, 'name' | 'type' | 'weight' | 'isRecommendation'>>;
+
+// Most recent edits reported to the model; older ones are summarized as a count
+const MAX_REPORTED_EDITS = 15;
+
+const DEFAULT_WEIGHT = 5;
+
+const mapNode = (node: MindMapNode, id: string, fn: (node: MindMapNode) => MindMapNode): MindMapNode => {
+  if (node.id === id) return fn(node);
+  if (!node.children) return node;
+  return { ...node, children: node.children.map(child => mapNode(child, id, fn)) };
+};
+
+export const findMindMapNode = (node: MindMapNode, id: string): MindMapNode | null => {
+  if (node.id === id) return node;
+  for (const child of node.children || []) {
+    const found = findMindMapNode(child, id);
+    if (found) return found;
+  }
+  return null;
+};
+
+const findParent = (node: MindMapNode, id: string): MindMapNode | null => {
+  for (const child of node.children || []) {
+    if (child.id === id) return node;
+    const found = findParent(child, id);
+    if (found) return found;
+  }
+  return null;
+};
+
+const countDescendants = (node: MindMapNode): number =>
+  (node.children || []).reduce((sum, child) => sum + 1 + countDescendants(child), 0);
+
+// Applies a patch and describes each field that actually changed
+export const updateMindMapNode = (
+  root: MindMapNode,
+  id: string,
+  patch: MindMapNodePatch
+): { root: MindMapNode; edits: MindMapEdit[] } => {
+  const node = findMindMapNode(root, id);
+  if (!node) return { root, edits: [] };
+
+  const edits: MindMapEdit[] = [];
+  const name = patch.name?.trim() || node.name;
+  if (name !== node.name) edits.push({ kind: 'rename', nodeName: node.name, from: node.name, to: name });
+  if (patch.type && patch.type !== node.type) {
+    edits.push({ kind: 'retype', nodeName: name, from: node.type, to: patch.type });
+  }
+  if (patch.weight !== undefined && patch.weight !== (node.weight ?? DEFAULT_WEIGHT)) {
+    edits.push({ kind: 'weight', nodeName: name, from: String(node.weight ?? DEFAULT_WEIGHT), to: String(patch.weight) });
+  }
+  if (patch.isRecommendation !== undefined && patch.isRecommendation !== Boolean(node.isRecommendation)) {
+    edits.push({ kind: 'recommend', nodeName: name, to: patch.isRecommendation ? 'yes' : 'no' });
+  }
+  if (edits.length === 0) return { root, edits };
+
+  // The first name is remembered so the model's version of this node keeps matching it
+  const renamed = name !== node.name ? { originalName: node.originalName ?? node.name } : {};
+  return { root: mapNode(root, id, n => ({ ...n, ...patch, name, ...renamed, userEdited: true })), edits };
+};
+
+// Children of options default to pros; everything else gets a sub-topic
+export const addMindMapChild = (
+  root: MindMapNode,
+  parentId: string,
+  name: string
+): { root: MindMapNode; id: string; edits: MindMapEdit[] } => {
+  const parent = findMindMapNode(root, parentId);
+  if (!parent) return { root, id: parentId, edits: [] };
+  const child: MindMapNode = {
+    id: createId(),
+    name: name.trim() || 'New thought',
+    type: parent.type === 'option' ? 'pro' : 'topic',
+    weight: DEFAULT_WEIGHT,
+    userEdited: true,
+  };
+  return {
+    root: mapNode(root, parentId, n => ({ ...n, children: [...(n.children || []), child] })),
+    id: child.id,
+    edits: [{ kind: 'add', nodeName: child.name, to: parent.name }],
+  };
+};
+
+// Removes a node with everything under it; the root cannot be removed.
+// The parent keeps the name as a tombstone so the next regenerated map doesn't restore it
+export const removeMindMapNode = (root: MindMapNode, id: string): { root: MindMapNode; edits: MindMapEdit[] } => {
+  const parent = findParent(root, id);
+  const node = findMindMapNode(root, id);
+  if (!parent || !node) return { root, edits: [] };
+  const descendants = countDescendants(node);
+  return {
+    root: mapNode(root, parent.id, n => ({
+      ...n,
+      children: (n.children || []).filter(child => child.id !== id),
+      deletedChildren: [...(n.deletedChildren || []), node.name, ...(node.originalName ? [node.originalName] : [])],
+    })),
+    edits: [{ kind: 'delete', nodeName: node.name, ...(descendants ? { from: String(descendants) } : {}) }],
+  };
+};
+
+const describeEdit = (edit: MindMapEdit): string => {
+  switch (edit.kind) {
+    case 'rename':
+      return `Renamed "${edit.from}" to "${edit.to}"`;
+    case 'add':
+      return `Added "${edit.nodeName}" under "${edit.to}"`;
+    case 'delete':
+      return `Removed "${edit.nodeName}"${edit.from ? ` and its ${edit.from} sub-point(s)` : ''}`;
+    case 'retype':
+      return `Changed "${edit.nodeName}" from ${edit.from} to ${edit.to}`;
+    case 'recommend':
+      return edit.to === 'yes'
+        ? `Marked "${edit.nodeName}" as the preferred choice`
+        : `No longer considers "${edit.nodeName}" the preferred choice`;
+    case 'weight':
+      return `Set the importance of "${edit.nodeName}" to ${edit.to}/10 (was ${edit.from})`;
+  }
+};
+
+// Context block for the model, or null when there is nothing to report
+export const summarizeMindMapEdits = (edits: MindMapEdit[] | undefined): string | null => {
+  if (!edits?.length) return null;
+  const recent = edits.slice(-MAX_REPORTED_EDITS);
+  const lines = recent.map(edit => `- ${describeEdit(edit)}`);
+  if (edits.length > recent.length) lines.unshift(`- (${edits.length - recent.length} earlier edits omitted)`);
+  return [
+    'Since the last message, the user edited the mind map of this decision:',
+    ...lines,
+    'Treat these edits as the user\'s own view of the decision and take them into account.',
+  ].join('\n');
+};
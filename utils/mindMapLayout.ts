@@ -0,0 +1,101 @@
+// Target positions for the structured mind map layouts
+// The force simulation pulls every node towards its target, so switching layouts animates from
+// wherever the nodes currently are instead of jumping. 'chaos' has no targets and is pure physics.
+
+import * as d3 from 'd3';
+import { MindMapNode } from '../types';
+
+export type MindMapLayout = 'chaos' | 'organized' | 'horizontal' | 'radial' | 'cluster' | 'grouped';
+
+export type LayoutTargets = Record<string, { x: number; y: number }>;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const SIBLING_GAP = 60;
+const LEVEL_GAP = 180;
+const RING_GAP = 150;
+// Angle between neighbours in the grouped layout, and how far pros/cons swing to either side of their option
+const GROUP_STEP = 0.16;
+const GROUP_SWING = 0.3;
+
+const fromPolar = (angle: number, radius: number): Point => ({
+  x: radius * Math.cos(angle - Math.PI / 2),
+  y: radius * Math.sin(angle - Math.PI / 2),
+});
+
+// Pros on one side of their parent, cons on the other, everything else in line
+const groupSide = (node: MindMapNode): number => {
+  if (node.type === 'pro') return -1;
+  if (node.type === 'con') return 1;
+  return 0;
+};
+
+// Options spread evenly around the root; each option's pros and cons cluster on either side of it
+const groupedTargets = (root: MindMapNode): LayoutTargets => {
+  const targets: LayoutTargets = { [root.id]: { x: 0, y: 0 } };
+  const top = root.children || [];
+
+  const place = (node: MindMapNode, angle: number, depth: number) => {
+    targets[node.id] = fromPolar(angle, depth * RING_GAP);
+    const children = node.children || [];
+    [-1, 0, 1].forEach(side => {
+      const group = children.filter(child => groupSide(child) === side);
+      const swing = side * GROUP_SWING / depth;
+      group.forEach((child, i) => {
+        const offset = (i - (group.length - 1) / 2) * GROUP_STEP / depth;
+        place(child, angle + swing + offset, depth + 1);
+      });
+    });
+  };
+
+  top.forEach((child, i) => place(child, (i / Math.max(1, top.length)) * Math.PI * 2, 1));
+  return targets;
+};
+
+export const layoutTargets = (root: MindMapNode, layout: MindMapLayout, width: number, height: number): LayoutTargets => {
+  if (layout === 'chaos') return {};
+  if (layout === 'grouped') return groupedTargets(root);
+
+  const hierarchy = d3.hierarchy(root);
+  const targets: LayoutTargets = {};
+
+  if (layout === 'radial') {
+    d3.tree<MindMapNode>()
+      .size([Math.PI * 2, Math.max(1, hierarchy.height) * RING_GAP])
+      .separation((a, b) => (a.parent === b.parent ? 1 : 2) / Math.max(1, a.depth))(hierarchy);
+    hierarchy.descendants().forEach((d: any) => {
+      targets[d.data.id] = fromPolar(d.x, d.y);
+    });
+    return targets;
+  }
+
+  if (layout === 'cluster') {
+    // Dendrogram: all leaves line up in the last column
+    d3.cluster<MindMapNode>().nodeSize([SIBLING_GAP, LEVEL_GAP])(hierarchy);
+  } else {
+    d3.tree<MindMapNode>().nodeSize([SIBLING_GAP * (layout === 'organized' ? 2 : 1), LEVEL_GAP])(hierarchy);
+  }
+
+  hierarchy.descendants().forEach((d: any) => {
+    targets[d.data.id] = layout === 'organized'
+      ? { x: d.x, y: d.y * 0.7 - height * 0.3 }
+      : { x: d.y - width * 0.2, y: d.x };
+  });
+  return targets;
+};
+
+// Link shape per layout: curves along the tree's direction, straight spokes otherwise
+export const linkPath = (layout: MindMapLayout, source: Point, target: Point): string => {
+  if (layout === 'horizontal' || layout === 'cluster') {
+    const midX = (source.x + target.x) / 2;
+    return `M${source.x},${source.y}C${midX},${source.y} ${midX},${target.y} ${target.x},${target.y}`;
+  }
+  if (layout === 'organized') {
+    const midY = (source.y + target.y) / 2;
+    return `M${source.x},${source.y}C${source.x},${midY} ${target.x},${midY} ${target.x},${target.y}`;
+  }
+  return `M${source.x},${source.y}L${target.x},${target.y}`;
+};
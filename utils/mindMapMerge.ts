@@ -0,0 +1,77 @@
+// Merges a freshly generated mind map into the one already on screen
+// The model assigns new IDs on every generation, so nodes are matched by their normalized name under an
+// already-matched parent instead. Matched nodes keep their ID (and therefore their position in the
+// force layout), their collapse state and anything the user edited. Each node is marked with what the
+// merge did to it; nodes the model dropped stay visible as 'removed' until the next merge.
+// Renamed nodes also match under their original name, and children the user deleted stay deleted.
+
+import { MindMapNode } from '../types';
+
+// Two node names match when they agree ignoring case, punctuation and spacing. Letters and digits of any
+// script count (Chinese names are common with some providers); a name with none is compared as written.
+export const normalizeName = (name: string) =>
+  name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim() || name.trim();
+
+// Drops the marks from the previous merge
+const unmarked = (node: MindMapNode): MindMapNode => {
+  const { change: _change, ...rest } = node;
+  return rest;
+};
+
+const markAll = (node: MindMapNode, change: 'added' | 'removed'): MindMapNode => ({
+  ...unmarked(node),
+  change,
+  ...(node.children ? { children: node.children.map(child => markAll(child, change)) } : {}),
+});
+
+// User-edited nodes (and anything under them) survive even when the model leaves them out
+const keepAsIs = (node: MindMapNode): MindMapNode => ({
+  ...unmarked(node),
+  ...(node.children ? { children: node.children.filter(child => child.change !== 'removed').map(keepAsIs) } : {}),
+});
+
+const containsUserEdits = (node: MindMapNode): boolean =>
+  Boolean(node.userEdited) || (node.children || []).some(containsUserEdits);
+
+const mergeNode = (previous: MindMapNode, next: MindMapNode): MindMapNode => {
+  const base = previous.userEdited
+    ? { ...unmarked(next), name: previous.name, originalName: previous.originalName, type: previous.type, weight: previous.weight, isRecommendation: previous.isRecommendation, userEdited: true }
+    : unmarked(next);
+  const merged: MindMapNode = { ...base, id: previous.id };
+  if (previous.collapsed) merged.collapsed = true;
+  else delete merged.collapsed;
+  if (previous.deletedChildren) merged.deletedChildren = previous.deletedChildren;
+
+  const changed = !previous.userEdited && (
+    next.type !== previous.type ||
+    (next.weight ?? 1) !== (previous.weight ?? 1) ||
+    Boolean(next.isRecommendation) !== Boolean(previous.isRecommendation)
+  );
+  if (changed) merged.change = 'changed';
+
+  // Nodes already shown as removed last time are dropped for good
+  const candidates = (previous.children || []).filter(child => child.change !== 'removed');
+  const deleted = new Set((previous.deletedChildren || []).map(normalizeName));
+  const used = new Set<MindMapNode>();
+  const children = (next.children || []).flatMap(child => {
+    const key = normalizeName(child.name);
+    const available = candidates.filter(candidate => !used.has(candidate));
+    // A node the user renamed is only matched by its old name when no node carries the new one
+    const match = available.find(candidate => normalizeName(candidate.name) === key)
+      || available.find(candidate => candidate.originalName !== undefined && normalizeName(candidate.originalName) === key);
+    if (!match) return deleted.has(key) ? [] : [markAll(child, 'added')];
+    used.add(match);
+    return [mergeNode(match, child)];
+  });
+  candidates
+    .filter(candidate => !used.has(candidate))
+    .forEach(candidate => children.push(containsUserEdits(candidate) ? keepAsIs(candidate) : markAll(candidate, 'removed')));
+
+  if (children.length) merged.children = children;
+  else delete merged.children;
+  return merged;
+};
+
+// The roots always match, since the model renames the root freely
+export const mergeMindMap = (previous: MindMapNode | null, next: MindMapNode): MindMapNode =>
+  previous ? mergeNode(previous, next) : next;
@@ -0,0 +1,43 @@
+// View state for the mind map: collapsed branches and focus
+// Collapse flags live on the nodes (so they persist with the session); mindMapMerge keeps them when a
+// freshly generated map is merged in.
+
+import { MindMapNode } from '../types';
+
+export interface VisibleMindMap {
+  root: MindMapNode;
+  hidden: Record<string, number>; // Descendants hidden under each collapsed node
+}
+
+const countDescendants = (node: MindMapNode): number =>
+  (node.children || []).reduce((sum, child) => sum + 1 + countDescendants(child), 0);
+
+export const toggleCollapsed = (node: MindMapNode, id: string): MindMapNode => {
+  if (node.id === id) return { ...node, collapsed: !node.collapsed };
+  if (!node.children) return node;
+  return { ...node, children: node.children.map(child => toggleCollapsed(child, id)) };
+};
+
+// Nodes from the root down to `id` (inclusive), or [] when it isn't in the tree
+export const pathToNode = (node: MindMapNode, id: string): MindMapNode[] => {
+  if (node.id === id) return [node];
+  for (const child of node.children || []) {
+    const path = pathToNode(child, id);
+    if (path.length) return [node, ...path];
+  }
+  return [];
+};
+
+// What gets drawn: the focused branch (or the whole map) with collapsed children pruned
+export const visibleTree = (root: MindMapNode, focusId?: string | null): VisibleMindMap => {
+  const hidden: Record<string, number> = {};
+  const prune = (node: MindMapNode): MindMapNode => {
+    if (node.collapsed && node.children?.length) {
+      hidden[node.id] = countDescendants(node);
+      return { ...node, children: [] };
+    }
+    return node.children ? { ...node, children: node.children.map(prune) } : node;
+  };
+  const focused = focusId ? pathToNode(root, focusId).pop() : undefined;
+  return { root: prune(focused || root), hidden };
+};
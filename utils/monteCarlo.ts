@@ -0,0 +1,260 @@
+// Seeded Monte Carlo simulation over the decision tree or the cost/benefit analysis
+// Each iteration samples every uncertain input (ranges, or a default spread around point values) and
+// records one outcome per option. Pure and deterministic for a given seed, so it can run in a worker.
+
+import { CostBenefitAnalysis, DecisionTreeData, DecisionTreeNode, Estimate } from '../types';
+import { resolveProbabilities } from './decisionTreeMath';
+
+export type SimulationSource = 'tree' | 'costbenefit';
+
+export interface SimulationInput {
+  source: SimulationSource;
+  tree?: DecisionTreeData | null;
+  costBenefit?: CostBenefitAnalysis | null;
+  iterations: number;
+  seed: number;
+  // Relative spread applied to point values that have no explicit range (0.2 = ±20%)
+  defaultSpread: number;
+}
+
+export interface OptionDistribution {
+  optionName: string;
+  mean: number;
+  p10: number;
+  p50: number;
+  p90: number;
+  min: number;
+  max: number;
+  winProbability: number; // 0-1, ties share the win
+  histogram: number[]; // Share of iterations (0-1) per bin
+}
+
+export interface SimulationResult {
+  source: SimulationSource;
+  iterations: number;
+  seed: number;
+  bins: { start: number; end: number }[];
+  options: OptionDistribution[];
+}
+
+const BIN_COUNT = 20;
+const VALUE_RANGE: [number, number] = [0, 10];
+
+// --- Random sampling ---
+
+export type Rng = () => number;
+
+// Small, fast, seedable PRNG (uniform in [0, 1))
+export const mulberry32 = (seed: number): Rng => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const normal = (rng: Rng): number => {
+  const u = 1 - rng();
+  const v = rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+// Marsaglia-Tsang, valid for shape >= 1 (always the case for PERT)
+const gamma = (shape: number, rng: Rng): number => {
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = normal(rng);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = rng();
+    if (u < 1 - 0.0331 * x ** 4 || Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+  }
+};
+
+export const sampleEstimate = (estimate: Estimate, rng: Rng): number => {
+  const { min: a, likely: m, max: b } = estimate;
+  if (b <= a) return a;
+  switch (estimate.distribution) {
+    case 'uniform':
+      return a + rng() * (b - a);
+    case 'pert': {
+      const alpha = 1 + (4 * (m - a)) / (b - a);
+      const beta = 1 + (4 * (b - m)) / (b - a);
+      const x = gamma(alpha, rng);
+      return a + (x / (x + gamma(beta, rng))) * (b - a);
+    }
+    default: {
+      // Triangular, by inverting the CDF
+      const u = rng();
+      const split = (m - a) / (b - a);
+      return u < split
+        ? a + Math.sqrt(u * (b - a) * (m - a))
+        : b - Math.sqrt((1 - u) * (b - a) * (b - m));
+    }
+  }
+};
+
+// Point values without a range get a symmetric triangular spread, kept inside the scale
+const spreadAround = (value: number, spread: number, [low, high]: [number, number]): Estimate => ({
+  min: Math.max(low, value * (1 - spread)),
+  likely: value,
+  max: Math.min(high, value * (1 + spread)),
+});
+
+const sampleValue = (point: number, range: Estimate | undefined, spread: number, rng: Rng): number =>
+  range ? sampleEstimate(range, rng) : spread > 0 ? sampleEstimate(spreadAround(point, spread, VALUE_RANGE), rng) : point;
+
+// --- Decision tree ---
+
+// One draw of the tree's uncertain inputs; probabilities without a range stay fixed
+interface SampledNode {
+  type: DecisionTreeNode['type'];
+  value: number | null;
+  probability?: number;
+  children: SampledNode[];
+}
+
+const sampleTree = (node: DecisionTreeNode, spread: number, rng: Rng): SampledNode => ({
+  type: node.type,
+  value: node.value === undefined ? null : sampleValue(node.value, node.valueRange, spread, rng),
+  probability: node.probabilityRange ? sampleEstimate(node.probabilityRange, rng) : node.probability,
+  children: (node.children || []).map(child => sampleTree(child, spread, rng)),
+});
+
+const expectedValue = (node: SampledNode): number | null => {
+  if (node.children.length === 0) return node.value;
+  const evs = node.children.map(expectedValue);
+  if (node.type === 'decision') {
+    const valid = evs.filter((ev): ev is number => ev !== null);
+    return valid.length ? Math.max(...valid) : null;
+  }
+  const { probabilities } = resolveProbabilities(node.children);
+  let weighted = 0;
+  let weight = 0;
+  evs.forEach((ev, i) => {
+    if (ev === null) return;
+    weighted += probabilities[i] * ev;
+    weight += probabilities[i];
+  });
+  return weight > 0 ? weighted / weight : null;
+};
+
+// Plays one future: chance nodes pick a branch at random, later decisions take their best branch
+const realize = (node: SampledNode, rng: Rng): number | null => {
+  if (node.children.length === 0) return node.value;
+  const candidates = node.children.filter(child => expectedValue(child) !== null);
+  if (candidates.length === 0) return null;
+
+  if (node.type === 'decision') {
+    const best = candidates.reduce((a, b) => (expectedValue(b)! > expectedValue(a)! ? b : a));
+    return realize(best, rng);
+  }
+
+  const { probabilities } = resolveProbabilities(candidates);
+  let u = rng() * 100;
+  for (let i = 0; i < candidates.length; i++) {
+    u -= probabilities[i];
+    if (u < 0) return realize(candidates[i], rng);
+  }
+  return realize(candidates[candidates.length - 1], rng);
+};
+
+// --- Summaries ---
+
+const percentile = (sorted: Float64Array, p: number): number => {
+  if (sorted.length === 0) return 0;
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// Runs the simulation; options whose outcome is undefined in an iteration sit that iteration out
+export const simulate = (input: SimulationInput): SimulationResult => {
+  const rng = mulberry32(input.seed);
+  const iterations = Math.max(1, Math.floor(input.iterations));
+
+  let names: string[] = [];
+  let draw: () => (number | null)[];
+
+  if (input.source === 'tree') {
+    const root = input.tree?.root;
+    if (!root) throw new Error('No decision tree to simulate');
+    const options = root.type === 'decision' && root.children?.length ? root.children : [root];
+    names = options.map(option => option.label);
+    draw = () => {
+      const sampled = sampleTree(root, input.defaultSpread, rng);
+      const sampledOptions = options === root.children ? sampled.children : [sampled];
+      return sampledOptions.map(option => realize(option, rng));
+    };
+  } else {
+    const options = input.costBenefit?.options || [];
+    if (options.length === 0) throw new Error('No cost/benefit analysis to simulate');
+    names = options.map(option => option.optionName);
+    draw = () => options.map(option =>
+      option.benefits.reduce((sum, b) => sum + sampleValue(b.magnitude, b.magnitudeRange, input.defaultSpread, rng), 0) -
+      option.costs.reduce((sum, c) => sum + sampleValue(c.magnitude, c.magnitudeRange, input.defaultSpread, rng), 0)
+    );
+  }
+
+  const samples = names.map(() => new Float64Array(iterations));
+  const counts = names.map(() => 0);
+  const wins = names.map(() => 0);
+
+  for (let i = 0; i < iterations; i++) {
+    const outcomes = draw();
+    let best = -Infinity;
+    outcomes.forEach((value, j) => {
+      if (value === null) return;
+      samples[j][counts[j]++] = value;
+      if (value > best) best = value;
+    });
+    const winners = outcomes.filter(value => value !== null && value >= best - 1e-9).length;
+    outcomes.forEach((value, j) => {
+      if (value !== null && value >= best - 1e-9) wins[j] += 1 / winners;
+    });
+  }
+
+  const sorted = samples.map((s, j) => s.subarray(0, counts[j]).sort());
+  const all = sorted.filter(s => s.length > 0);
+  const low = all.length ? Math.min(...all.map(s => s[0])) : 0;
+  const high = all.length ? Math.max(...all.map(s => s[s.length - 1])) : 0;
+  const width = (high - low) / BIN_COUNT || 1;
+  const bins = Array.from({ length: BIN_COUNT }, (_, i) => ({ start: round2(low + i * width), end: round2(low + (i + 1) * width) }));
+
+  return {
+    source: input.source,
+    iterations,
+    seed: input.seed,
+    bins,
+    options: names.map((optionName, j) => {
+      const values = sorted[j];
+      const histogram = new Array(BIN_COUNT).fill(0);
+      values.forEach(value => {
+        histogram[Math.min(BIN_COUNT - 1, Math.floor((value - low) / width))] += 1;
+      });
+      const mean = values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+      return {
+        optionName,
+        mean: round2(mean),
+        p10: round2(percentile(values, 0.1)),
+        p50: round2(percentile(values, 0.5)),
+        p90: round2(percentile(values, 0.9)),
+        min: round2(values[0] ?? 0),
+        max: round2(values[values.length - 1] ?? 0),
+        winProbability: wins[j] / iterations,
+        histogram: histogram.map(count => count / iterations),
+      };
+    }),
+  };
+};
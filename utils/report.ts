@@ -0,0 +1,319 @@
+// Decision report export
+// The session is first turned into a list of format-neutral blocks (headings, tables, charts, ...),
+// which are then rendered as Markdown or as a self-contained HTML page that also serves as the
+// print layout for "Save as PDF".
+
+import { DecisionSession, DecisionTreeNode, Message } from '../types';
+import { getWeight, rankRows, recommendedRowIndex, weightedScore } from './decisionMatrix';
+import { formatEV, rollback } from './decisionTreeMath';
+import { analyzeSensitivity } from './sensitivity';
+import { barChartSvg, escapeXml, lineChartSvg } from './reportCharts';
+
+export type ReportFormat = 'markdown' | 'html' | 'pdf';
+
+export type ReportBlock =
+  | { kind: 'heading'; text: string; level: 2 | 3 }
+  | { kind: 'text'; text: string; muted?: boolean }
+  | { kind: 'list'; items: { text: string; depth?: number }[] }
+  | { kind: 'table'; headers: string[]; rows: string[][]; numeric?: boolean[] }
+  | { kind: 'chart'; title: string; svg: string }
+  | { kind: 'message'; author: string; time: string; text: string };
+
+const AUTHORS: Record<Message['role'], string> = { user: 'You', model: 'Kompass' };
+
+const signed = (n: number) => (n > 0 ? `+${n}` : String(n));
+
+const treeLabel = (node: DecisionTreeNode, ev: number | null | undefined, probability?: number) => {
+  const parts = [node.label, `(${node.type})`];
+  if (probability !== undefined) parts.push(`${Math.round(probability)}%`);
+  if (node.type === 'outcome' && node.value !== undefined) parts.push(`value ${node.value}`);
+  else if (ev !== undefined) parts.push(`EV ${formatEV(ev)}`);
+  return parts.join(' ');
+};
+
+// The recommendation as the report's first line, taken from the most authoritative source available
+const recommendationOf = (session: DecisionSession): string | null => {
+  const model = session.decisionModel;
+  if (model) return model.options.find(o => o.id === model.recommendedOptionId)?.name || null;
+  const comparison = session.comparison;
+  return (comparison ? comparison.rows[recommendedRowIndex(comparison)]?.optionName : undefined)
+    || session.costBenefit?.bestOption
+    || session.swot?.recommendedOption
+    || null;
+};
+
+export const buildReport = (session: DecisionSession, messages: Message[]): ReportBlock[] => {
+  const blocks: ReportBlock[] = [];
+  const { comparison, swot, costBenefit, decisionTree, timeline, projections } = session;
+
+  const recommendation = recommendationOf(session);
+  if (recommendation) {
+    blocks.push({ kind: 'heading', text: 'Summary', level: 2 });
+    blocks.push({ kind: 'text', text: `Recommended option: ${recommendation}` });
+    if (session.decisionModel?.rationale) blocks.push({ kind: 'text', text: session.decisionModel.rationale, muted: true });
+  }
+
+  const conversation = messages.filter(m => !m.isError && m.text.trim());
+  if (conversation.length) {
+    blocks.push({ kind: 'heading', text: 'Conversation', level: 2 });
+    conversation.forEach(m => blocks.push({
+      kind: 'message',
+      author: AUTHORS[m.role],
+      time: new Date(m.timestamp).toLocaleString(),
+      text: m.text,
+    }));
+  }
+
+  if (comparison?.rows.length) {
+    const ranks = rankRows(comparison);
+    const recommendedIndex = recommendedRowIndex(comparison);
+    blocks.push({ kind: 'heading', text: 'Comparison Matrix', level: 2 });
+    blocks.push({
+      kind: 'chart',
+      title: 'Weighted score by option',
+      svg: barChartSvg('Weighted score by option', comparison.rows.map((row, i) => ({
+        label: row.optionName,
+        value: weightedScore(comparison, row),
+        highlight: i === recommendedIndex,
+      }))),
+    });
+    blocks.push({
+      kind: 'table',
+      headers: ['Rank', 'Option', ...comparison.criteria.map(c => `${c} (w${getWeight(comparison, c)})`), 'Weighted'],
+      numeric: [true, false, ...comparison.criteria.map(() => true), true],
+      rows: comparison.rows.map((row, i) => [
+        String(ranks[i]),
+        i === recommendedIndex ? `${row.optionName} ★` : row.optionName,
+        ...comparison.criteria.map(c => String(row.scores.find(s => s.criteria === c)?.score ?? '–')),
+        weightedScore(comparison, row).toFixed(2),
+      ]),
+    });
+    const sensitivity = analyzeSensitivity(comparison);
+    if (sensitivity) {
+      blocks.push({
+        kind: 'text',
+        muted: true,
+        text: `${sensitivity.leader} leads ${sensitivity.runnerUp} by ${sensitivity.margin.toFixed(2)} points; the ranking is ${sensitivity.robustness}.`,
+      });
+      if (sensitivity.conditions.length) {
+        blocks.push({ kind: 'list', items: sensitivity.conditions.map(text => ({ text })) });
+      }
+    }
+  }
+
+  if (swot?.options.length) {
+    blocks.push({ kind: 'heading', text: 'SWOT Analysis', level: 2 });
+    swot.options.forEach(option => {
+      blocks.push({ kind: 'heading', text: option.optionName, level: 3 });
+      const quadrants: [string, string[]][] = [
+        ['Strengths', option.strengths],
+        ['Weaknesses', option.weaknesses],
+        ['Opportunities', option.opportunities],
+        ['Threats', option.threats],
+      ];
+      blocks.push({
+        kind: 'list',
+        items: quadrants.flatMap(([name, items]) => [
+          { text: name },
+          ...(items.length ? items : ['–']).map(text => ({ text, depth: 1 })),
+        ]),
+      });
+    });
+  }
+
+  if (costBenefit?.options.length) {
+    blocks.push({ kind: 'heading', text: 'Cost / Benefit', level: 2 });
+    blocks.push({
+      kind: 'chart',
+      title: 'Net score by option',
+      svg: barChartSvg('Net score by option', costBenefit.options.map(option => ({
+        label: option.optionName,
+        value: option.netScore,
+        highlight: option.optionName === costBenefit.bestOption,
+      })), v => signed(Math.round(v))),
+    });
+    costBenefit.options.forEach(option => {
+      blocks.push({ kind: 'heading', text: `${option.optionName} — net ${signed(option.netScore)}`, level: 3 });
+      if (option.benefits.length || option.costs.length) blocks.push({
+        kind: 'table',
+        headers: ['', 'Category', 'Item', 'Magnitude'],
+        numeric: [false, false, false, true],
+        rows: [
+          ...option.benefits.map(item => ['Benefit', item.category, item.description, `+${item.magnitude}`]),
+          ...option.costs.map(item => ['Cost', item.category, item.description, `-${item.magnitude}`]),
+        ],
+      });
+      if (option.recommendation) blocks.push({ kind: 'text', text: option.recommendation, muted: true });
+    });
+  }
+
+  if (decisionTree?.root) {
+    const evaluation = rollback(decisionTree);
+    const items: { text: string; depth: number }[] = [];
+    const walk = (node: DecisionTreeNode, depth: number) => {
+      const ev = evaluation.nodes[node.id];
+      const label = treeLabel(node, ev?.ev, ev?.probability);
+      items.push({ text: ev?.isOptimal && depth > 0 ? `${label} ★` : label, depth });
+      (node.children || []).forEach(child => walk(child, depth + 1));
+    };
+    walk(decisionTree.root, 0);
+    blocks.push({ kind: 'heading', text: 'Decision Tree', level: 2 });
+    blocks.push({ kind: 'list', items });
+    blocks.push({ kind: 'text', muted: true, text: '★ marks the path with the highest expected value.' });
+    evaluation.warnings.forEach(text => blocks.push({ kind: 'text', text, muted: true }));
+  }
+
+  if (timeline?.milestones.length) {
+    blocks.push({ kind: 'heading', text: 'Timeline', level: 2 });
+    blocks.push({
+      kind: 'table',
+      headers: ['When', 'Option', 'Milestone', 'Type'],
+      rows: timeline.milestones.map(m => [
+        m.date,
+        m.optionName,
+        m.description ? `${m.label} — ${m.description}` : m.label,
+        m.type,
+      ]),
+    });
+  }
+
+  if (projections.length) {
+    const labels = projections[0].data.map(p => p.timeLabel);
+    blocks.push({ kind: 'heading', text: 'Projected Outcomes', level: 2 });
+    blocks.push({
+      kind: 'chart',
+      title: 'Projected satisfaction over time',
+      svg: lineChartSvg('Projected satisfaction over time', projections.map(s => ({
+        name: s.name,
+        points: s.data.map(p => ({ label: p.timeLabel, value: p.value })),
+      }))),
+    });
+    blocks.push({
+      kind: 'table',
+      headers: ['Option', ...labels],
+      numeric: [false, ...labels.map(() => true)],
+      rows: projections.map(s => [s.name, ...labels.map(label => String(s.data.find(p => p.timeLabel === label)?.value ?? '–'))]),
+    });
+  }
+
+  return blocks;
+};
+
+// --- Markdown ---
+
+const mdCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+
+// Base64 of the UTF-8 bytes, so charts with non-Latin labels survive btoa
+const svgDataUri = (svg: string) => {
+  const bytes = new TextEncoder().encode(svg);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return `data:image/svg+xml;base64,${btoa(binary)}`;
+};
+
+const blockToMarkdown = (block: ReportBlock): string => {
+  switch (block.kind) {
+    case 'heading':
+      return `${'#'.repeat(block.level)} ${block.text}`;
+    case 'text':
+      return block.muted ? `_${block.text}_` : block.text;
+    case 'list':
+      return block.items.map(item => `${'  '.repeat(item.depth || 0)}- ${item.text}`).join('\n');
+    case 'table':
+      return [
+        `| ${block.headers.map(mdCell).join(' | ')} |`,
+        `| ${block.headers.map((_, i) => (block.numeric?.[i] ? '---:' : '---')).join(' | ')} |`,
+        ...block.rows.map(row => `| ${row.map(mdCell).join(' | ')} |`),
+      ].join('\n');
+    case 'chart':
+      return `![${block.title}](${svgDataUri(block.svg)})`;
+    case 'message':
+      return `**${block.author}** · ${block.time}\n\n${block.text}`;
+  }
+};
+
+export const reportToMarkdown = (title: string, blocks: ReportBlock[]): string =>
+  [`# ${title}`, `_Exported ${new Date().toLocaleString()}_`, ...blocks.map(blockToMarkdown)].join('\n\n') + '\n';
+
+// --- HTML ---
+
+const REPORT_CSS = `
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; color: #111; max-width: 760px; margin: 40px auto; padding: 0 24px; line-height: 1.5; }
+  h1 { font-size: 26px; margin-bottom: 4px; }
+  h2 { font-size: 18px; margin-top: 36px; padding-bottom: 6px; border-bottom: 2px solid #111; text-transform: uppercase; letter-spacing: 0.06em; }
+  h3 { font-size: 15px; margin-top: 22px; }
+  .muted { color: #6b7280; font-size: 13px; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; margin: 12px 0; }
+  th, td { border-bottom: 1px solid #e5e7eb; padding: 6px 8px; text-align: left; vertical-align: top; }
+  th { background: #f3f4f6; font-size: 11px; text-transform: uppercase; letter-spacing: 0.04em; }
+  td.num, th.num { text-align: right; font-variant-numeric: tabular-nums; }
+  ul { padding-left: 20px; }
+  .message { margin: 12px 0; padding: 10px 14px; border-left: 3px solid #d1d5db; }
+  .message.you { border-color: #111; }
+  .message .meta { font-size: 11px; color: #6b7280; margin-bottom: 4px; }
+  .message .body { white-space: pre-wrap; font-size: 13px; }
+  figure { margin: 16px 0; }
+  figure svg { max-width: 100%; height: auto; }
+  figcaption { font-size: 11px; color: #6b7280; text-transform: uppercase; letter-spacing: 0.05em; }
+  @media print {
+    body { margin: 0; max-width: none; }
+    h2 { break-after: avoid; }
+    table, figure, .message { break-inside: avoid; }
+  }
+`;
+
+// Nested lists from the flat depth-annotated items
+const listToHtml = (items: { text: string; depth?: number }[]): string => {
+  let html = '<ul>';
+  let depth = 0;
+  items.forEach((item, i) => {
+    const target = item.depth || 0;
+    if (i > 0 && target <= depth) html += '</li>';
+    for (; depth < target; depth++) html += '<ul>';
+    for (; depth > target; depth--) html += '</ul></li>';
+    html += `<li>${escapeXml(item.text)}`;
+  });
+  if (items.length) html += '</li>';
+  for (; depth > 0; depth--) html += '</ul></li>';
+  return html + '</ul>';
+};
+
+const blockToHtml = (block: ReportBlock): string => {
+  switch (block.kind) {
+    case 'heading':
+      return `<h${block.level}>${escapeXml(block.text)}</h${block.level}>`;
+    case 'text':
+      return `<p${block.muted ? ' class="muted"' : ''}>${escapeXml(block.text)}</p>`;
+    case 'list':
+      return listToHtml(block.items);
+    case 'table': {
+      const cls = (i: number) => (block.numeric?.[i] ? ' class="num"' : '');
+      return '<table><thead><tr>' +
+        block.headers.map((h, i) => `<th${cls(i)}>${escapeXml(h)}</th>`).join('') +
+        '</tr></thead><tbody>' +
+        block.rows.map(row => `<tr>${row.map((cell, i) => `<td${cls(i)}>${escapeXml(cell)}</td>`).join('')}</tr>`).join('') +
+        '</tbody></table>';
+    }
+    case 'chart':
+      return `<figure>${block.svg}<figcaption>${escapeXml(block.title)}</figcaption></figure>`;
+    case 'message':
+      return `<div class="message${block.author === AUTHORS.user ? ' you' : ''}">` +
+        `<div class="meta"><strong>${escapeXml(block.author)}</strong> · ${escapeXml(block.time)}</div>` +
+        `<div class="body">${escapeXml(block.text)}</div></div>`;
+  }
+};
+
+export const reportToHtml = (title: string, blocks: ReportBlock[]): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeXml(title)}</title>
+<style>${REPORT_CSS}</style>
+</head>
+<body>
+<h1>${escapeXml(title)}</h1>
+<p class="muted">Exported ${escapeXml(new Date().toLocaleString())}</p>
+${blocks.map(blockToHtml).join('\n')}
+</body>
+</html>
+`;
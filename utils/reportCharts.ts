@@ -0,0 +1,99 @@
+// Static SVG charts for the exported report
+// The on-screen charts are Recharts components that only exist while their tab is open, so the
+// report draws its own snapshots as plain SVG markup that works in Markdown, HTML and print alike.
+
+export interface ChartBar {
+  label: string;
+  value: number;
+  highlight?: boolean;
+}
+
+export interface ChartSeries {
+  name: string;
+  points: { label: string; value: number }[];
+}
+
+const WIDTH = 640;
+const LABEL_WIDTH = 160;
+const BAR_HEIGHT = 22;
+const BAR_GAP = 10;
+const PADDING = 24;
+const LINE_HEIGHT = 260;
+
+// Print-friendly palette: dark lines on white paper
+const SERIES_COLORS = ['#111111', '#6b7280', '#2563eb', '#d97706', '#059669', '#9333ea'];
+
+export const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const truncate = (text: string, max: number) => (text.length > max ? `${text.slice(0, max - 1)}…` : text);
+
+const svgOpen = (height: number, title: string) =>
+  `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${height}" viewBox="0 0 ${WIDTH} ${height}" font-family="Helvetica, Arial, sans-serif" font-size="11" role="img" aria-label="${escapeXml(title)}">` +
+  `<rect width="${WIDTH}" height="${height}" fill="#ffffff"/>`;
+
+// Horizontal bars; negative values grow left from the zero line
+export const barChartSvg = (title: string, bars: ChartBar[], format: (value: number) => string = v => v.toFixed(1)): string => {
+  const height = PADDING * 2 + bars.length * (BAR_HEIGHT + BAR_GAP);
+  const plotLeft = LABEL_WIDTH + PADDING;
+  const plotWidth = WIDTH - plotLeft - PADDING * 2;
+  const min = Math.min(0, ...bars.map(b => b.value));
+  const max = Math.max(0, ...bars.map(b => b.value));
+  const span = max - min || 1;
+  const x = (value: number) => plotLeft + ((value - min) / span) * plotWidth;
+
+  const rows = bars.map((bar, i) => {
+    const y = PADDING + i * (BAR_HEIGHT + BAR_GAP);
+    const left = Math.min(x(0), x(bar.value));
+    const width = Math.max(1, Math.abs(x(bar.value) - x(0)));
+    const valueX = bar.value < 0 ? left - 4 : left + width + 4;
+    return [
+      `<text x="${LABEL_WIDTH + PADDING - 8}" y="${y + BAR_HEIGHT / 2 + 4}" text-anchor="end" fill="#111111"${bar.highlight ? ' font-weight="bold"' : ''}>${escapeXml(truncate(bar.label, 28))}</text>`,
+      `<rect x="${left}" y="${y}" width="${width}" height="${BAR_HEIGHT}" rx="3" fill="${bar.highlight ? '#111111' : '#9ca3af'}"/>`,
+      `<text x="${valueX}" y="${y + BAR_HEIGHT / 2 + 4}" text-anchor="${bar.value < 0 ? 'end' : 'start'}" fill="#374151">${escapeXml(format(bar.value))}</text>`,
+    ].join('');
+  });
+
+  return svgOpen(height, title) +
+    `<line x1="${x(0)}" y1="${PADDING - 6}" x2="${x(0)}" y2="${height - PADDING + 6}" stroke="#d1d5db"/>` +
+    rows.join('') +
+    '</svg>';
+};
+
+// One line per series over shared x labels (taken from the first series)
+export const lineChartSvg = (title: string, series: ChartSeries[], range: [number, number] = [0, 100]): string => {
+  const labels = series[0]?.points.map(p => p.label) || [];
+  const legendHeight = 18 * Math.ceil(series.length / 3);
+  const height = LINE_HEIGHT + legendHeight;
+  const plotLeft = PADDING + 24;
+  const plotRight = WIDTH - PADDING;
+  const plotTop = PADDING;
+  const plotBottom = LINE_HEIGHT - PADDING - 16;
+  const [min, max] = range;
+  const x = (i: number) => plotLeft + (labels.length > 1 ? (i / (labels.length - 1)) * (plotRight - plotLeft) : 0);
+  const y = (value: number) => plotBottom - ((value - min) / (max - min || 1)) * (plotBottom - plotTop);
+
+  const grid = [0, 0.25, 0.5, 0.75, 1].map(f => {
+    const value = min + f * (max - min);
+    return `<line x1="${plotLeft}" y1="${y(value)}" x2="${plotRight}" y2="${y(value)}" stroke="#e5e7eb"/>` +
+      `<text x="${plotLeft - 6}" y="${y(value) + 4}" text-anchor="end" fill="#6b7280">${Math.round(value)}</text>`;
+  });
+  const xLabels = labels.map((label, i) =>
+    `<text x="${x(i)}" y="${plotBottom + 16}" text-anchor="middle" fill="#6b7280">${escapeXml(truncate(label, 14))}</text>`
+  );
+  const lines = series.map((s, i) => {
+    const color = SERIES_COLORS[i % SERIES_COLORS.length];
+    const points = s.points.map((p, j) => `${x(j)},${y(p.value)}`).join(' ');
+    const dots = s.points.map((p, j) => `<circle cx="${x(j)}" cy="${y(p.value)}" r="3" fill="${color}"/>`).join('');
+    return `<polyline points="${points}" fill="none" stroke="${color}" stroke-width="2"/>${dots}`;
+  });
+  const legend = series.map((s, i) => {
+    const lx = PADDING + (i % 3) * ((WIDTH - PADDING * 2) / 3);
+    const ly = LINE_HEIGHT + Math.floor(i / 3) * 18;
+    const color = SERIES_COLORS[i % SERIES_COLORS.length];
+    return `<rect x="${lx}" y="${ly - 8}" width="10" height="10" rx="2" fill="${color}"/>` +
+      `<text x="${lx + 16}" y="${ly + 1}" fill="#111111">${escapeXml(truncate(s.name, 26))}</text>`;
+  });
+
+  return svgOpen(height, title) + grid.join('') + xLabels.join('') + lines.join('') + legend.join('') + '</svg>';
+};
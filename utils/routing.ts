@@ -0,0 +1,47 @@
+// URL routes for deep links and back / forward navigation
+//   /session/<sessionId>/<tab>?option=<name>   one of the user's own decisions
+//   /share/<token>/<tab>?option=<name>         a shared decision, read-only
+// Segments are kept as raw strings here; the app checks that the session and tab exist before using them.
+
+export interface AppRoute {
+  shareToken: string | null;
+  sessionId: string | null;
+  tab: string | null;
+  option: string | null;
+}
+
+const SESSION_SEGMENT = 'session';
+const SHARE_SEGMENT = 'share';
+const OPTION_PARAM = 'option';
+
+const decode = (segment: string | undefined): string | null => {
+  if (!segment) return null;
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null; // Malformed escape sequence in a hand-edited URL
+  }
+};
+
+export const parseRoute = (pathname: string, search = ''): AppRoute => {
+  const [kind, id, tab] = pathname.split('/').filter(Boolean);
+  const option = new URLSearchParams(search).get(OPTION_PARAM) || null;
+  if (kind === SHARE_SEGMENT) {
+    return { shareToken: decode(id), sessionId: null, tab: decode(tab), option };
+  }
+  if (kind === SESSION_SEGMENT) {
+    return { shareToken: null, sessionId: decode(id), tab: decode(tab), option };
+  }
+  return { shareToken: null, sessionId: null, tab: null, option: null };
+};
+
+export const buildRoute = (route: AppRoute): string => {
+  const base = route.shareToken
+    ? [SHARE_SEGMENT, route.shareToken]
+    : route.sessionId ? [SESSION_SEGMENT, route.sessionId] : [];
+  if (!base.length) return '/';
+  const path = '/' + [...base, ...(route.tab ? [route.tab] : [])].map(encodeURIComponent).join('/');
+  return route.option ? `${path}?${new URLSearchParams({ [OPTION_PARAM]: route.option })}` : path;
+};
+
+export const currentRoute = (): AppRoute => parseRoute(window.location.pathname, window.location.search);
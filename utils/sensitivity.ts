@@ -0,0 +1,193 @@
+// Sensitivity analysis for the weighted decision matrix
+// Answers "how much would have to change before the top-ranked option flips?" for every criterion
+// weight and score. The weighted score is linear in each input, so tipping points are solved exactly.
+
+import { ComparisonData, ComparisonRow } from '../types';
+import { getWeight, weightedScore } from './decisionMatrix';
+
+export const WEIGHT_RANGE: [number, number] = [0, 10];
+export const SCORE_RANGE: [number, number] = [0, 10];
+// A plausible disagreement with one AI score
+export const SCORE_SWING = 2;
+
+export type Robustness = 'robust' | 'moderate' | 'fragile';
+
+export interface WeightTippingPoint {
+  criterion: string;
+  currentWeight: number;
+  flipWeight: number; // Leader loses at (or beyond) this weight
+  challenger: string;
+  change: number; // |flipWeight - currentWeight|
+}
+
+export interface ScoreTippingPoint {
+  criterion: string;
+  optionName: string; // Whose score changes
+  isLeader: boolean; // True: the leader's score drops; false: a challenger's score rises
+  currentScore: number;
+  flipScore: number;
+  challenger: string; // Option that takes first place
+  change: number;
+}
+
+// Leader's winning margin as one input sweeps its range (margin < 0 means the leader is overtaken)
+export interface TornadoBar {
+  criterion: string;
+  low: number;
+  high: number;
+  swing: number;
+}
+
+export interface SensitivityResult {
+  leader: string;
+  runnerUp: string;
+  margin: number; // Weighted-score lead over the runner-up (0-10 scale)
+  weightTippingPoints: WeightTippingPoint[];
+  scoreTippingPoints: ScoreTippingPoint[];
+  weightTornado: TornadoBar[];
+  scoreTornado: TornadoBar[];
+  robustness: Robustness;
+  conditions: string[]; // "What would have to be true" for the ranking to flip, most likely first
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const scoreOf = (row: ComparisonRow, criterion: string) =>
+  row.scores.find(s => s.criteria === criterion)?.score ?? 0;
+
+// Leader's lead over the best challenger with one weight or one leader score replaced
+const marginWith = (
+  data: ComparisonData,
+  leader: ComparisonRow,
+  override: { weight?: [string, number]; leaderScore?: [string, number] }
+): number => {
+  const weightOf = (c: string) => (override.weight?.[0] === c ? override.weight[1] : getWeight(data, c));
+  const totalWeight = data.criteria.reduce((sum, c) => sum + weightOf(c), 0);
+  if (totalWeight === 0) return 0;
+  const score = (row: ComparisonRow) => data.criteria.reduce((sum, c) => {
+    const s = row === leader && override.leaderScore?.[0] === c ? override.leaderScore[1] : scoreOf(row, c);
+    return sum + weightOf(c) * s;
+  }, 0) / totalWeight;
+  const leaderScore = score(leader);
+  return leaderScore - Math.max(...data.rows.filter(r => r !== leader).map(score));
+};
+
+const sortBars = (bars: TornadoBar[]) => bars.sort((a, b) => b.swing - a.swing);
+
+// Thresholds are in the matrix's own units: score points (0-10) and weight points (0-10)
+const classify = (margin: number, minScoreChange: number, minWeightChange: number): Robustness => {
+  if (margin < 0.25 || minScoreChange < 1 || minWeightChange < 1.5) return 'fragile';
+  if (minScoreChange < 2 || minWeightChange < 3) return 'moderate';
+  return 'robust';
+};
+
+export const analyzeSensitivity = (data: ComparisonData): SensitivityResult | null => {
+  if (data.rows.length < 2 || data.criteria.length === 0) return null;
+
+  const scored = data.rows.map(row => ({ row, score: weightedScore(data, row) }));
+  scored.sort((a, b) => b.score - a.score);
+  const leader = scored[0].row;
+  const challengers = data.rows.filter(r => r !== leader);
+
+  // N_j = sum_k w_k (s_leader,k - s_j,k): the leader's weighted lead over j before normalizing
+  const lead = new Map(challengers.map(row => [row, data.criteria.reduce(
+    (sum, c) => sum + getWeight(data, c) * (scoreOf(leader, c) - scoreOf(row, c)), 0
+  )]));
+
+  // Weights: N_j + (w' - w) * d = 0  =>  w' = w - N_j / d
+  const weightTippingPoints: WeightTippingPoint[] = [];
+  data.criteria.forEach(criterion => {
+    const currentWeight = getWeight(data, criterion);
+    let best: WeightTippingPoint | null = null;
+    challengers.forEach(row => {
+      const d = scoreOf(leader, criterion) - scoreOf(row, criterion);
+      if (d === 0) return;
+      const flipWeight = currentWeight - lead.get(row)! / d;
+      if (flipWeight < WEIGHT_RANGE[0] || flipWeight > WEIGHT_RANGE[1]) return;
+      const change = Math.abs(flipWeight - currentWeight);
+      if (!best || change < best.change) {
+        best = { criterion, currentWeight, flipWeight: round1(flipWeight), challenger: row.optionName, change: round1(change) };
+      }
+    });
+    if (best) weightTippingPoints.push(best);
+  });
+
+  // Scores: changing one cell by delta moves N_j by w_c * delta
+  const scoreTippingPoints: ScoreTippingPoint[] = [];
+  data.criteria.forEach(criterion => {
+    const weight = getWeight(data, criterion);
+    if (weight === 0) return;
+
+    // The leader's score dropping - the closest challenger takes over first
+    const closest = challengers.reduce((a, b) => (lead.get(b)! < lead.get(a)! ? b : a));
+    const leaderDrop = lead.get(closest)! / weight;
+    const leaderFlip = scoreOf(leader, criterion) - leaderDrop;
+    if (leaderFlip >= SCORE_RANGE[0]) {
+      scoreTippingPoints.push({
+        criterion, optionName: leader.optionName, isLeader: true,
+        currentScore: scoreOf(leader, criterion), flipScore: round1(leaderFlip),
+        challenger: closest.optionName, change: round1(leaderDrop),
+      });
+    }
+
+    // A challenger's own score rising
+    challengers.forEach(row => {
+      const rise = lead.get(row)! / weight;
+      const flipScore = scoreOf(row, criterion) + rise;
+      if (flipScore > SCORE_RANGE[1]) return;
+      scoreTippingPoints.push({
+        criterion, optionName: row.optionName, isLeader: false,
+        currentScore: scoreOf(row, criterion), flipScore: round1(flipScore),
+        challenger: row.optionName, change: round1(rise),
+      });
+    });
+  });
+  scoreTippingPoints.sort((a, b) => a.change - b.change);
+  weightTippingPoints.sort((a, b) => a.change - b.change);
+
+  const weightTornado = sortBars(data.criteria.map(criterion => {
+    const atMin = marginWith(data, leader, { weight: [criterion, WEIGHT_RANGE[0]] });
+    const atMax = marginWith(data, leader, { weight: [criterion, WEIGHT_RANGE[1]] });
+    return { criterion, low: round2(Math.min(atMin, atMax)), high: round2(Math.max(atMin, atMax)), swing: Math.abs(atMax - atMin) };
+  }));
+
+  const scoreTornado = sortBars(data.criteria.map(criterion => {
+    const current = scoreOf(leader, criterion);
+    const down = marginWith(data, leader, { leaderScore: [criterion, Math.max(SCORE_RANGE[0], current - SCORE_SWING)] });
+    const up = marginWith(data, leader, { leaderScore: [criterion, Math.min(SCORE_RANGE[1], current + SCORE_SWING)] });
+    return { criterion, low: round2(Math.min(down, up)), high: round2(Math.max(down, up)), swing: Math.abs(up - down) };
+  }));
+
+  const margin = scored[0].score - scored[1].score;
+  const minScoreChange = scoreTippingPoints[0]?.change ?? Infinity;
+  const minWeightChange = weightTippingPoints[0]?.change ?? Infinity;
+
+  const conditions = [
+    ...weightTippingPoints.map(t => ({
+      change: t.change / 2, // One weight point moves the total less than one score point
+      text: `${t.challenger} would rank first if ${t.criterion} mattered ${t.flipWeight < t.currentWeight ? 'less' : 'more'} (weight ${t.currentWeight} → ${t.flipWeight})`,
+    })),
+    ...scoreTippingPoints.map(t => ({
+      change: t.change,
+      text: t.isLeader
+        ? `${t.challenger} would rank first if ${t.optionName} scored ${t.flipScore} instead of ${t.currentScore} on ${t.criterion}`
+        : `${t.challenger} would rank first if it scored ${t.flipScore} instead of ${t.currentScore} on ${t.criterion}`,
+    })),
+  ]
+    .sort((a, b) => a.change - b.change)
+    .slice(0, 5)
+    .map(c => c.text);
+
+  return {
+    leader: leader.optionName,
+    runnerUp: scored[1].row.optionName,
+    margin: round2(margin),
+    weightTippingPoints,
+    scoreTippingPoints,
+    weightTornado,
+    scoreTornado,
+    robustness: classify(margin, minScoreChange, minWeightChange),
+    conditions,
+  };
+};
@@ -0,0 +1,154 @@
+// Standalone SVG / PNG snapshots of the on-screen views
+// The live SVGs style themselves through CSS variables and stylesheet rules, which are lost once the
+// markup leaves the page. The export copies every element's computed presentation styles inline (so
+// var(--text-primary) becomes the current theme's color), crops to the drawing, and frames it with a
+// title and legend on the view's own background.
+
+export interface ExportLegendItem {
+  label: string;
+  color: string; // Any CSS color, including var(--...)
+  shape?: 'dot' | 'line';
+}
+
+export interface SvgExportOptions {
+  title: string;
+  subtitle?: string;
+  legend?: ExportLegendItem[];
+  // 'content' crops to what is drawn (pan/zoom views); 'viewport' keeps the SVG's own size (charts)
+  fit?: 'content' | 'viewport';
+}
+
+export interface StandaloneSvg {
+  markup: string;
+  width: number;
+  height: number;
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const PADDING = 32;
+const TITLE_HEIGHT = 56;
+const LEGEND_ROW_HEIGHT = 22;
+const LEGEND_ITEM_WIDTH = 170;
+
+// Computed styles copied inline; everything else keeps its attribute or default
+const STYLE_PROPERTIES = [
+  'fill', 'fill-opacity', 'stroke', 'stroke-width', 'stroke-opacity', 'stroke-dasharray', 'opacity',
+  'font-family', 'font-size', 'font-weight', 'text-anchor', 'dominant-baseline', 'display', 'visibility',
+];
+
+// Resolves var(--name) against the document, the way the live page sees it
+export const resolveCssColor = (value: string): string => {
+  const match = value.match(/^var\((--[\w-]+)\)$/);
+  if (!match) return value;
+  return getComputedStyle(document.documentElement).getPropertyValue(match[1]).trim() || value;
+};
+
+// First opaque background behind the SVG, so dark-only views stay dark in a light theme and vice versa
+const backgroundOf = (element: Element): string => {
+  for (let el: Element | null = element; el; el = el.parentElement) {
+    const color = getComputedStyle(el).backgroundColor;
+    if (color && color !== 'transparent' && !/rgba\(.*,\s*0\)$/.test(color)) return color;
+  }
+  return resolveCssColor('var(--bg-base)') || '#ffffff';
+};
+
+const inlineStyles = (source: Element, target: Element) => {
+  const computed = getComputedStyle(source);
+  const style = STYLE_PROPERTIES
+    .map(prop => [prop, computed.getPropertyValue(prop)] as const)
+    .filter(([, value]) => value && value !== 'normal' && value !== 'auto')
+    .map(([prop, value]) => `${prop}:${value}`)
+    .join(';');
+  if (style) target.setAttribute('style', style);
+  target.removeAttribute('class');
+  for (let i = 0; i < source.children.length; i++) {
+    if (target.children[i]) inlineStyles(source.children[i], target.children[i]);
+  }
+};
+
+const el = (name: string, attrs: Record<string, string | number>, text?: string) => {
+  const node = document.createElementNS(SVG_NS, name);
+  Object.entries(attrs).forEach(([key, value]) => node.setAttribute(key, String(value)));
+  if (text !== undefined) node.textContent = text;
+  return node;
+};
+
+export const buildStandaloneSvg = (svg: SVGSVGElement, options: SvgExportOptions): StandaloneSvg => {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  inlineStyles(svg, clone);
+  // Animations (e.g. pulsing rings) would freeze mid-frame in a still image
+  clone.querySelectorAll('animate').forEach(node => node.remove());
+
+  // Area to show, in the SVG's user coordinates
+  const box = options.fit === 'content'
+    ? svg.getBBox()
+    : { x: 0, y: 0, width: svg.clientWidth || Number(svg.getAttribute('width')) || 800, height: svg.clientHeight || Number(svg.getAttribute('height')) || 600 };
+
+  const legend = options.legend || [];
+  const contentWidth = Math.max(box.width, LEGEND_ITEM_WIDTH * Math.min(legend.length, 3), 320);
+  const perRow = Math.max(1, Math.floor(contentWidth / LEGEND_ITEM_WIDTH));
+  const legendHeight = legend.length ? Math.ceil(legend.length / perRow) * LEGEND_ROW_HEIGHT + 12 : 0;
+  const width = Math.ceil(contentWidth + PADDING * 2);
+  const height = Math.ceil(TITLE_HEIGHT + box.height + legendHeight + PADDING * 2);
+
+  const background = backgroundOf(svg);
+  const foreground = resolveCssColor('var(--text-primary)');
+  const muted = resolveCssColor('var(--text-tertiary)');
+  const font = getComputedStyle(document.body).fontFamily || 'sans-serif';
+
+  const root = el('svg', { xmlns: SVG_NS, width, height, viewBox: `0 0 ${width} ${height}` });
+  root.appendChild(el('rect', { width, height, fill: background }));
+  root.appendChild(el('text', { x: PADDING, y: PADDING + 18, fill: foreground, 'font-family': font, 'font-size': 20, 'font-weight': 700 }, options.title));
+  if (options.subtitle) {
+    root.appendChild(el('text', { x: PADDING, y: PADDING + 38, fill: muted, 'font-family': font, 'font-size': 12 }, options.subtitle));
+  }
+
+  // The original drawing as a nested SVG cropped to the box
+  clone.setAttribute('x', String(PADDING + (contentWidth - box.width) / 2));
+  clone.setAttribute('y', String(PADDING + TITLE_HEIGHT));
+  clone.setAttribute('width', String(box.width));
+  clone.setAttribute('height', String(box.height));
+  clone.setAttribute('viewBox', `${box.x} ${box.y} ${box.width} ${box.height}`);
+  clone.removeAttribute('style');
+  root.appendChild(clone);
+
+  const legendTop = PADDING + TITLE_HEIGHT + box.height + 20;
+  legend.forEach((item, i) => {
+    const x = PADDING + (i % perRow) * LEGEND_ITEM_WIDTH;
+    const y = legendTop + Math.floor(i / perRow) * LEGEND_ROW_HEIGHT;
+    const color = resolveCssColor(item.color);
+    root.appendChild(item.shape === 'line'
+      ? el('line', { x1: x, y1: y, x2: x + 14, y2: y, stroke: color, 'stroke-width': 3 })
+      : el('circle', { cx: x + 6, cy: y, r: 6, fill: color }));
+    root.appendChild(el('text', { x: x + 22, y: y + 4, fill: foreground, 'font-family': font, 'font-size': 12 }, item.label));
+  });
+
+  return { markup: new XMLSerializer().serializeToString(root), width, height };
+};
+
+// Rasterizes the standalone SVG; `scale` multiplies the pixel size (2 = retina / slides)
+export const svgToPngBlob = (svg: StandaloneSvg, scale: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg.markup], { type: 'image/svg+xml;charset=utf-8' }));
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(svg.width * scale);
+      canvas.height = Math.round(svg.height * scale);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        URL.revokeObjectURL(url);
+        reject(new Error('Canvas is not available in this browser.'));
+        return;
+      }
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('The image could not be encoded.'))), 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('The drawing could not be rendered as an image.'));
+    };
+    image.src = url;
+  });
@@ -0,0 +1,847 @@
+// Runtime validators for model-generated visualization payloads
+// Mirrors the interfaces in types.ts: recoverable problems are repaired in place (clamping, defaults,
+// recomputed totals), anything the views cannot render is reported as an error so the caller can re-prompt.
+
+import {
+  MindMapNode,
+  ProjectionScenario,
+  ProjectionPoint,
+  ComparisonData,
+  ComparisonRow,
+  ComparisonScore,
+  DecisionTreeData,
+  DecisionTreeNode,
+  SWOTAnalysis,
+  SWOTData,
+  CostBenefitAnalysis,
+  CostBenefitData,
+  CostBenefitItem,
+  CostBenefitCategory,
+  TimelineData,
+  TimelineMilestone,
+  MilestoneType,
+  DecisionModel,
+  DecisionOption,
+  DecisionCriterion,
+  DecisionOutcome,
+  DecisionMilestone,
+  Estimate
+} from '../types';
+
+export interface ValidationResult<T> {
+  value: T | null;
+  errors: string[];   // Fatal - the payload cannot be shown as-is
+  repairs: string[];  // Fixed automatically - kept for logging
+}
+
+export type Validator<T> = (raw: unknown) => ValidationResult<T>;
+
+// Thrown when a response still fails validation after the corrective re-prompt
+export class ValidationError extends Error {
+  errors: string[];
+
+  constructor(message: string, errors: string[]) {
+    super(message);
+    this.name = 'ValidationError';
+    this.errors = errors;
+  }
+}
+
+// --- Primitive helpers ---
+
+const isObject = (v: unknown): v is Record<string, any> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const asString = (v: unknown): string | undefined => {
+  if (typeof v === 'string') return v.trim() || undefined;
+  if (typeof v === 'number') return String(v);
+  return undefined;
+};
+
+const asNumber = (v: unknown): number | undefined => {
+  const n = typeof v === 'string' ? parseFloat(v.replace('%', '')) : v;
+  return typeof n === 'number' && isFinite(n) ? n : undefined;
+};
+
+const clamp = (n: number, min: number, max: number) => Math.max(min, Math.min(max, n));
+
+// Some models answer 0.7 instead of 70
+const asPercent = (v: unknown): number | undefined => {
+  const n = asNumber(v);
+  if (n === undefined) return undefined;
+  return n > 0 && n <= 1 && !Number.isInteger(n) ? n * 100 : n;
+};
+
+const oneOf = <T extends string>(v: unknown, allowed: readonly T[]): T | undefined => {
+  const s = typeof v === 'string' ? v.trim().toLowerCase() : undefined;
+  return allowed.find(a => a === s);
+};
+
+const slugify = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'item';
+
+// Case-insensitive lookup so "option a" still matches "Option A"
+const matchName = (name: unknown, candidates: string[]): string | undefined => {
+  const s = asString(name)?.toLowerCase();
+  if (!s) return undefined;
+  return candidates.find(c => c.toLowerCase() === s);
+};
+
+// Models sometimes wrap the payload: {"data": {...}} or {"analysis": [...]}
+const unwrap = (raw: unknown, keys: string[]): unknown => {
+  if (!isObject(raw)) return raw;
+  for (const key of keys) {
+    if (key in raw) return raw[key];
+  }
+  return raw;
+};
+
+class Collector {
+  errors: string[] = [];
+  repairs: string[] = [];
+
+  error(msg: string) { this.errors.push(msg); }
+  repair(msg: string) { this.repairs.push(msg); }
+
+  result<T>(value: T | null): ValidationResult<T> {
+    return { value: this.errors.length ? null : value, errors: this.errors, repairs: this.repairs };
+  }
+}
+
+// Clamps with a repair note when the value was out of range
+const clampWithNote = (c: Collector, n: number, min: number, max: number, path: string) => {
+  const clamped = clamp(n, min, max);
+  if (clamped !== n) c.repair(`${path} clamped from ${n} to ${clamped}`);
+  return clamped;
+};
+
+const DISTRIBUTIONS: readonly NonNullable<Estimate['distribution']>[] = ['triangular', 'pert', 'uniform'];
+
+// Accepts {min, likely, max}, [min, max] or [min, likely, max]; the point estimate fills in a missing "likely"
+const asEstimate = (
+  c: Collector,
+  v: unknown,
+  point: number | undefined,
+  min: number,
+  max: number,
+  path: string,
+  parse: (v: unknown) => number | undefined = asNumber
+): Estimate | undefined => {
+  if (v === undefined || v === null) return undefined;
+  let low: number | undefined;
+  let likely: number | undefined;
+  let high: number | undefined;
+  let distribution: Estimate['distribution'];
+  if (Array.isArray(v)) {
+    [low, likely, high] = v.length === 2 ? [parse(v[0]), point, parse(v[1])] : v.map(parse);
+  } else if (isObject(v)) {
+    low = parse(v.min ?? v.low);
+    likely = parse(v.likely ?? v.mode ?? v.expected) ?? point;
+    high = parse(v.max ?? v.high);
+    distribution = oneOf(v.distribution, DISTRIBUTIONS);
+  }
+  if (low === undefined || high === undefined) {
+    c.repair(`${path} dropped (needs min and max)`);
+    return undefined;
+  }
+  const [a, b] = [clamp(Math.min(low, high), min, max), clamp(Math.max(low, high), min, max)];
+  const estimate: Estimate = { min: a, likely: clamp(likely ?? (a + b) / 2, a, b), max: b };
+  if (distribution) estimate.distribution = distribution;
+  return estimate;
+};
+
+const stringList = (c: Collector, v: unknown, path: string): string[] => {
+  if (v === undefined || v === null) {
+    c.repair(`${path} missing, defaulted to []`);
+    return [];
+  }
+  if (!Array.isArray(v)) {
+    const single = asString(v);
+    c.repair(`${path} was not an array`);
+    return single ? [single] : [];
+  }
+  return v.map(asString).filter((s): s is string => Boolean(s));
+};
+
+// --- Mind Map ---
+
+const MIND_MAP_TYPES = ['root', 'topic', 'option', 'outcome', 'pro', 'con'] as const;
+
+const validateMindMapNode = (c: Collector, raw: unknown, path: string, depth: number, ids: Set<string>): MindMapNode | null => {
+  if (!isObject(raw)) {
+    c.repair(`${path} dropped (not an object)`);
+    return null;
+  }
+  const name = asString(raw.name) || asString(raw.label);
+  if (!name) {
+    c.repair(`${path} dropped (no name)`);
+    return null;
+  }
+
+  let id = asString(raw.id) || `${slugify(name)}-${depth}`;
+  if (ids.has(id)) {
+    id = `${id}-${ids.size}`;
+    c.repair(`${path}.id was duplicated`);
+  }
+  ids.add(id);
+
+  let type = oneOf(raw.type, MIND_MAP_TYPES);
+  if (!type) {
+    type = depth === 0 ? 'root' : depth === 1 ? 'topic' : 'option';
+    c.repair(`${path}.type "${raw.type}" replaced with "${type}"`);
+  }
+
+  const node: MindMapNode = { id, name, type };
+
+  const weight = asNumber(raw.weight);
+  if (weight !== undefined) node.weight = clampWithNote(c, Math.round(weight), 1, 10, `${path}.weight`);
+  if (raw.isRecommendation === true || raw.isRecommendation === 'true') node.isRecommendation = true;
+  if (typeof raw.collapsed === 'boolean') node.collapsed = raw.collapsed;
+  // User edits carried by stored maps (imported files, share links)
+  if (raw.userEdited === true) node.userEdited = true;
+  const originalName = asString(raw.originalName);
+  if (originalName) node.originalName = originalName;
+  if (Array.isArray(raw.deletedChildren)) {
+    const deleted = raw.deletedChildren.map(asString).filter((s): s is string => Boolean(s));
+    if (deleted.length) node.deletedChildren = deleted;
+  }
+
+  if (Array.isArray(raw.children)) {
+    node.children = raw.children
+      .map((child, i) => validateMindMapNode(c, child, `${path}.children[${i}]`, depth + 1, ids))
+      .filter((n): n is MindMapNode => n !== null);
+  }
+  return node;
+};
+
+export const validateMindMap: Validator<MindMapNode> = (raw) => {
+  const c = new Collector();
+  const data = unwrap(raw, ['mindMap', 'root', 'data']);
+  if (!isObject(data)) {
+    c.error('Expected a mind map object with "id", "name", "type" and "children"');
+    return c.result(null);
+  }
+  const root = validateMindMapNode(c, data, 'root', 0, new Set());
+  if (!root) c.error('Root node must have a "name"');
+  return c.result(root);
+};
+
+// --- Projections ---
+
+export const validateProjections: Validator<ProjectionScenario[]> = (raw) => {
+  const c = new Collector();
+  const data = unwrap(raw, ['scenarios', 'projections', 'data']);
+  if (!Array.isArray(data)) {
+    c.error('Expected a JSON array of scenarios');
+    return c.result(null);
+  }
+
+  const scenarios: ProjectionScenario[] = [];
+  data.forEach((s, i) => {
+    const path = `[${i}]`;
+    if (!isObject(s) || !asString(s.name)) {
+      c.repair(`${path} dropped (no name)`);
+      return;
+    }
+    if (!Array.isArray(s.data)) {
+      c.error(`${path}.data must be an array of { timeLabel, value }`);
+      return;
+    }
+    const points: ProjectionPoint[] = [];
+    s.data.forEach((p: unknown, j: number) => {
+      const timeLabel = isObject(p) ? asString(p.timeLabel) : undefined;
+      const value = isObject(p) ? asNumber(p.value) : undefined;
+      if (!timeLabel || value === undefined) {
+        c.repair(`${path}.data[${j}] dropped (needs timeLabel and numeric value)`);
+        return;
+      }
+      points.push({ timeLabel, value: clampWithNote(c, value, 0, 100, `${path}.data[${j}].value`) });
+    });
+    if (points.length === 0) {
+      c.error(`${path}.data has no valid points`);
+      return;
+    }
+    scenarios.push({
+      name: asString(s.name)!,
+      description: asString(s.description) || '',
+      data: points,
+      ...(asString(s.color) ? { color: asString(s.color) } : {}),
+    });
+  });
+
+  if (scenarios.length === 0 && c.errors.length === 0) c.error('No valid scenarios found');
+  return c.result(scenarios);
+};
+
+// --- Comparison Matrix ---
+
+export const validateComparison: Validator<ComparisonData> = (raw) => {
+  const c = new Collector();
+  const data = unwrap(raw, ['comparison', 'matrix', 'data']);
+  if (!isObject(data)) {
+    c.error('Expected an object with "criteria" and "rows"');
+    return c.result(null);
+  }
+  if (!Array.isArray(data.rows) || data.rows.length === 0) {
+    c.error('"rows" must be a non-empty array');
+    return c.result(null);
+  }
+
+  let criteria = Array.isArray(data.criteria)
+    ? data.criteria.map((cr: unknown) => asString(cr) || (isObject(cr) ? asString(cr.name) : undefined)).filter(Boolean) as string[]
+    : [];
+
+  // Recover criteria from the first row's scores if the list is missing
+  if (criteria.length === 0) {
+    const firstScores = data.rows.find((r: any) => isObject(r) && r.scores)?.scores;
+    if (Array.isArray(firstScores)) {
+      criteria = firstScores.map((s: any) => asString(s?.criteria)).filter(Boolean) as string[];
+    } else if (isObject(firstScores)) {
+      criteria = Object.keys(firstScores);
+    }
+    if (criteria.length === 0) {
+      c.error('"criteria" must be a non-empty array of strings');
+      return c.result(null);
+    }
+    c.repair('criteria recovered from row scores');
+  }
+
+  const rows: ComparisonRow[] = [];
+  data.rows.forEach((r: unknown, i: number) => {
+    const path = `rows[${i}]`;
+    if (!isObject(r) || !asString(r.optionName)) {
+      c.repair(`${path} dropped (no optionName)`);
+      return;
+    }
+
+    // Accept both [{criteria, score}] and {"Cost": 7} shapes
+    let rawScores: { criteria: unknown; score: unknown; aiScore?: unknown }[] | null = null;
+    if (Array.isArray(r.scores)) {
+      rawScores = r.scores.filter(isObject).map((s: any) => ({ criteria: s.criteria ?? s.name, score: s.score, aiScore: s.aiScore }));
+    } else if (isObject(r.scores)) {
+      rawScores = Object.entries(r.scores).map(([k, v]) => ({ criteria: k, score: v }));
+      c.repair(`${path}.scores converted from object to array`);
+    }
+    if (!rawScores) {
+      c.error(`${path}.scores is missing; expected [{ "criteria": string, "score": 1-10 }] for every criterion`);
+      return;
+    }
+
+    let matched = 0;
+    const scores = criteria.map(name => {
+      const found = rawScores!.find(s => matchName(s.criteria, [name]));
+      const score = found ? asNumber(found.score) : undefined;
+      if (score === undefined) {
+        c.repair(`${path} missing score for "${name}", defaulted to 0`);
+        return { criteria: name, score: 0 };
+      }
+      matched++;
+      const cell: ComparisonScore = { criteria: name, score: clampWithNote(c, score, 0, 10, `${path}.${name}`) };
+      // Set in stored matrices where the user overrode the AI's score
+      const aiScore = asNumber(found!.aiScore);
+      if (aiScore !== undefined) cell.aiScore = clamp(aiScore, 0, 10);
+      return cell;
+    });
+    if (matched === 0) {
+      c.error(`${path}.scores does not match any of the criteria ${JSON.stringify(criteria)}`);
+      return;
+    }
+
+    rows.push({
+      optionName: asString(r.optionName)!,
+      isRecommended: r.isRecommended === true || r.isRecommended === 'true',
+      summary: asString(r.summary) || '',
+      scores,
+    });
+  });
+
+  if (rows.length === 0) {
+    if (c.errors.length === 0) c.error('No valid rows found');
+    return c.result(null);
+  }
+
+  // Exactly one recommended row - fall back to the highest total
+  const recommended = rows.filter(r => r.isRecommended);
+  if (recommended.length !== 1) {
+    const total = (row: ComparisonRow) => row.scores.reduce((acc, s) => acc + s.score, 0);
+    const best = recommended.length > 1
+      ? recommended[0]
+      : rows.reduce((a, b) => total(b) > total(a) ? b : a);
+    rows.forEach(r => { r.isRecommended = r === best; });
+    c.repair(`isRecommended normalized to "${best.optionName}"`);
+  }
+
+  const result: ComparisonData = { criteria, rows };
+  // User importance weights, kept by stored matrices
+  if (isObject(data.weights)) {
+    const weights: Record<string, number> = {};
+    criteria.forEach(name => {
+      const weight = asNumber(data.weights[name]);
+      if (weight !== undefined) weights[name] = clamp(weight, 1, 10);
+    });
+    if (Object.keys(weights).length) result.weights = weights;
+  }
+  return c.result(result);
+};
+
+// --- Decision Tree ---
+
+const TREE_TYPES = ['decision', 'chance', 'outcome'] as const;
+const SENTIMENTS = ['positive', 'negative', 'neutral'] as const;
+
+const validateTreeNode = (c: Collector, raw: unknown, path: string, ids: Set<string>): DecisionTreeNode | null => {
+  if (!isObject(raw)) {
+    c.repair(`${path} dropped (not an object)`);
+    return null;
+  }
+  const label = asString(raw.label) || asString(raw.name);
+  if (!label) {
+    c.repair(`${path} dropped (no label)`);
+    return null;
+  }
+
+  let id = asString(raw.id) || `${slugify(label)}-${ids.size}`;
+  if (ids.has(id)) {
+    id = `${id}-${ids.size}`;
+    c.repair(`${path}.id was duplicated`);
+  }
+  ids.add(id);
+
+  const children = Array.isArray(raw.children)
+    ? raw.children
+      .map((child, i) => validateTreeNode(c, child, `${path}.children[${i}]`, ids))
+      .filter((n): n is DecisionTreeNode => n !== null)
+    : [];
+
+  let type = oneOf(raw.type, TREE_TYPES);
+  if (!type) {
+    type = children.length ? 'decision' : 'outcome';
+    c.repair(`${path}.type "${raw.type}" replaced with "${type}"`);
+  }
+  // A decision picks the best child, so probabilities below it would be ignored: below the root,
+  // a "decision" whose children all carry probabilities is really a chance node
+  if (type === 'decision' && path !== 'root' && children.length && children.every(child => child.probability !== undefined)) {
+    type = 'chance';
+    c.repair(`${path}.type "decision" replaced with "chance" (its children have probabilities)`);
+  }
+
+  const node: DecisionTreeNode = { id, label, type };
+  const probability = asPercent(raw.probability);
+  if (probability !== undefined) node.probability = clampWithNote(c, probability, 0, 100, `${path}.probability`);
+  const probabilityRange = asEstimate(c, raw.probabilityRange, node.probability, 0, 100, `${path}.probabilityRange`, asPercent);
+  if (probabilityRange) node.probabilityRange = probabilityRange;
+  const value = asNumber(raw.value);
+  if (value !== undefined) node.value = clampWithNote(c, value, 0, 10, `${path}.value`);
+  const valueRange = asEstimate(c, raw.valueRange ?? raw.range, node.value, 0, 10, `${path}.valueRange`);
+  if (valueRange) node.valueRange = valueRange;
+  const sentiment = oneOf(raw.sentiment, SENTIMENTS);
+  if (sentiment) node.sentiment = sentiment;
+  if (children.length) node.children = children;
+  return node;
+};
+
+export const validateDecisionTree: Validator<DecisionTreeData> = (raw) => {
+  const c = new Collector();
+  const data = unwrap(raw, ['decisionTree', 'tree']);
+  if (!isObject(data)) {
+    c.error('Expected an object with a "root" node');
+    return c.result(null);
+  }
+  // Accept a bare root node
+  const rawRoot = isObject(data.root) ? data.root : (asString(data.label) ? data : null);
+  if (!rawRoot) {
+    c.error('"root" must be a node object with "id", "label", "type" and "children"');
+    return c.result(null);
+  }
+
+  const ids = new Set<string>();
+  const root = validateTreeNode(c, rawRoot, 'root', ids);
+  if (!root) {
+    c.error('"root" must have a "label"');
+    return c.result(null);
+  }
+
+  const result: DecisionTreeData = { root };
+  const recommendation = asString(data.recommendation);
+  if (recommendation && ids.has(recommendation)) {
+    result.recommendation = recommendation;
+  } else if (recommendation) {
+    c.repair(`recommendation "${recommendation}" does not match any node id, dropped`);
+  }
+  return c.result(result);
+};
+
+// --- SWOT ---
+
+export const validateSWOT: Validator<SWOTAnalysis> = (raw) => {
+  const c = new Collector();
+  const data = unwrap(raw, ['swot', 'analysis']);
+  const rawOptions = Array.isArray(data) ? data : isObject(data) ? data.options : undefined;
+  if (!Array.isArray(rawOptions)) {
+    c.error('Expected an object with an "options" array');
+    return c.result(null);
+  }
+
+  const options: SWOTData[] = [];
+  rawOptions.forEach((o: unknown, i: number) => {
+    const path = `options[${i}]`;
+    if (!isObject(o) || !asString(o.optionName)) {
+      c.repair(`${path} dropped (no optionName)`);
+      return;
+    }
+    const option: SWOTData = {
+      optionName: asString(o.optionName)!,
+      strengths: stringList(c, o.strengths, `${path}.strengths`),
+      weaknesses: stringList(c, o.weaknesses, `${path}.weaknesses`),
+      opportunities: stringList(c, o.opportunities, `${path}.opportunities`),
+      threats: stringList(c, o.threats, `${path}.threats`),
+    };
+    const score = asNumber(o.overallScore);
+    if (score !== undefined) option.overallScore = clampWithNote(c, Math.round(score), -100, 100, `${path}.overallScore`);
+    options.push(option);
+  });
+
+  if (options.length === 0) {
+    c.error('"options" has no valid entries with an "optionName"');
+    return c.result(null);
+  }
+
+  const names = options.map(o => o.optionName);
+  const result: SWOTAnalysis = { options };
+  const recommended = matchName(isObject(data) ? data.recommendedOption : undefined, names);
+  if (recommended) result.recommendedOption = recommended;
+  return c.result(result);
+};
+
+// --- Cost-Benefit ---
+
+const CB_CATEGORIES: readonly CostBenefitCategory[] = ['financial', 'time', 'emotional', 'opportunity', 'social'];
+
+const costBenefitItems = (c: Collector, v: unknown, path: string, prefix: string): CostBenefitItem[] => {
+  if (!Array.isArray(v)) {
+    c.repair(`${path} missing, defaulted to []`);
+    return [];
+  }
+  const items: CostBenefitItem[] = [];
+  v.forEach((item: unknown, i: number) => {
+    const description = isObject(item) ? asString(item.description) : asString(item);
+    if (!description) {
+      c.repair(`${path}[${i}] dropped (no description)`);
+      return;
+    }
+    const raw = isObject(item) ? item : {};
+    let category = oneOf(raw.category, CB_CATEGORIES);
+    if (!category) {
+      category = 'opportunity';
+      c.repair(`${path}[${i}].category "${raw.category}" replaced with "opportunity"`);
+    }
+    let magnitude = asNumber(raw.magnitude);
+    if (magnitude === undefined) {
+      magnitude = 5;
+      c.repair(`${path}[${i}].magnitude missing, defaulted to 5`);
+    }
+    const entry: CostBenefitItem = {
+      id: asString(raw.id) || `${prefix}-${i + 1}`,
+      category,
+      description,
+      magnitude: clampWithNote(c, Math.round(magnitude), 1, 10, `${path}[${i}].magnitude`),
+    };
+    const magnitudeRange = asEstimate(c, raw.magnitudeRange ?? raw.range, entry.magnitude, 0, 10, `${path}[${i}].magnitudeRange`);
+    if (magnitudeRange) entry.magnitudeRange = magnitudeRange;
+    items.push(entry);
+  });
+  return items;
+};
+
+export const validateCostBenefit: Validator<CostBenefitAnalysis> = (raw) => {
+  const c = new Collector();
+  const data = unwrap(raw, ['costBenefit', 'analysis']);
+  const rawOptions = Array.isArray(data) ? data : isObject(data) ? data.options : undefined;
+  if (!Array.isArray(rawOptions)) {
+    c.error('Expected an object with an "options" array');
+    return c.result(null);
+  }
+
+  const options: CostBenefitData[] = [];
+  rawOptions.forEach((o: unknown, i: number) => {
+    const path = `options[${i}]`;
+    if (!isObject(o) || !asString(o.optionName)) {
+      c.repair(`${path} dropped (no optionName)`);
+      return;
+    }
+    const costs = costBenefitItems(c, o.costs, `${path}.costs`, `cost-${i + 1}`);
+    const benefits = costBenefitItems(c, o.benefits, `${path}.benefits`, `benefit-${i + 1}`);
+    if (costs.length === 0 && benefits.length === 0) {
+      c.error(`${path} has no costs or benefits`);
+      return;
+    }
+
+    // netScore is derived data - never trust the model's arithmetic
+    const netScore = benefits.reduce((s, b) => s + b.magnitude, 0) - costs.reduce((s, b) => s + b.magnitude, 0);
+    if (asNumber(o.netScore) !== netScore) c.repair(`${path}.netScore recomputed as ${netScore}`);
+
+    const option: CostBenefitData = { optionName: asString(o.optionName)!, costs, benefits, netScore };
+    const recommendation = asString(o.recommendation);
+    if (recommendation) option.recommendation = recommendation;
+    options.push(option);
+  });
+
+  if (options.length === 0) {
+    if (c.errors.length === 0) c.error('"options" has no valid entries with an "optionName"');
+    return c.result(null);
+  }
+
+  const names = options.map(o => o.optionName);
+  const bestOption = matchName(isObject(data) ? data.bestOption : undefined, names)
+    || options.reduce((a, b) => b.netScore > a.netScore ? b : a).optionName;
+  return c.result({ options, bestOption });
+};
+
+// --- Timeline ---
+
+const MILESTONE_TYPES: readonly MilestoneType[] = ['checkpoint', 'outcome', 'risk', 'decision', 'benefit'];
+const HORIZONS = ['short', 'medium', 'long'] as const;
+
+export const validateTimeline: Validator<TimelineData> = (raw) => {
+  const c = new Collector();
+  const data = unwrap(raw, ['timeline', 'roadmap']);
+  const rawMilestones = Array.isArray(data) ? data : isObject(data) ? data.milestones : undefined;
+  if (!Array.isArray(rawMilestones)) {
+    c.error('Expected an object with a "milestones" array');
+    return c.result(null);
+  }
+
+  const milestones: TimelineMilestone[] = [];
+  rawMilestones.forEach((m: unknown, i: number) => {
+    const path = `milestones[${i}]`;
+    const label = isObject(m) ? asString(m.label) : undefined;
+    const date = isObject(m) ? asString(m.date) : undefined;
+    if (!isObject(m) || !label || !date) {
+      c.repair(`${path} dropped (needs label and date)`);
+      return;
+    }
+    let type = oneOf(m.type, MILESTONE_TYPES);
+    if (!type) {
+      type = 'checkpoint';
+      c.repair(`${path}.type "${m.type}" replaced with "checkpoint"`);
+    }
+    const optionName = asString(m.optionName) || 'General';
+    const milestone: TimelineMilestone = {
+      id: asString(m.id) || `m${i + 1}`,
+      date,
+      label,
+      type,
+      optionId: asString(m.optionId) || slugify(optionName),
+      optionName,
+    };
+    const description = asString(m.description);
+    if (description) milestone.description = description;
+    milestones.push(milestone);
+  });
+
+  if (milestones.length === 0) {
+    c.error('"milestones" has no valid entries with "label" and "date"');
+    return c.result(null);
+  }
+
+  // Every option referenced by a milestone must be filterable
+  const listed = isObject(data) ? stringList(c, data.options, 'options') : [];
+  const options = Array.from(new Set([...listed, ...milestones.map(m => m.optionName)]));
+  const timeHorizon = (isObject(data) && oneOf(data.timeHorizon, HORIZONS)) || 'medium';
+
+  return c.result({ milestones, options, timeHorizon });
+};
+
+// --- Unified Decision Model ---
+
+// Fixed projection horizon; a bare list of numbers is read against these labels
+export const PROJECTION_LABELS = ['Immediate', '1 Month', '6 Months', '1 Year', '5 Years'];
+
+const decisionCriteria = (c: Collector, v: unknown): DecisionCriterion[] => {
+  if (!Array.isArray(v)) return [];
+  const seen = new Set<string>();
+  const criteria: DecisionCriterion[] = [];
+  v.forEach((cr: unknown, i: number) => {
+    const name = asString(cr) || (isObject(cr) ? asString(cr.name) : undefined);
+    if (!name || seen.has(name.toLowerCase())) {
+      c.repair(`criteria[${i}] dropped (missing or duplicate name)`);
+      return;
+    }
+    seen.add(name.toLowerCase());
+    let weight = isObject(cr) ? asNumber(cr.weight) : undefined;
+    if (weight === undefined) {
+      weight = 5;
+      c.repair(`criteria[${i}].weight missing, defaulted to 5`);
+    }
+    criteria.push({ name, weight: clampWithNote(c, Math.round(weight), 1, 10, `criteria[${i}].weight`) });
+  });
+  return criteria;
+};
+
+const decisionOutcomes = (c: Collector, v: unknown, path: string): DecisionOutcome[] => {
+  if (!Array.isArray(v)) {
+    c.repair(`${path} missing, defaulted to []`);
+    return [];
+  }
+  const outcomes: DecisionOutcome[] = [];
+  v.forEach((o: unknown, i: number) => {
+    const label = isObject(o) ? asString(o.label) : asString(o);
+    if (!label) {
+      c.repair(`${path}[${i}] dropped (no label)`);
+      return;
+    }
+    const raw = isObject(o) ? o : {};
+    const value = asNumber(raw.value);
+    outcomes.push({
+      label,
+      probability: clamp(asPercent(raw.probability) ?? 0, 0, 100),
+      sentiment: oneOf(raw.sentiment, SENTIMENTS) || 'neutral',
+      value: value === undefined ? 5 : clampWithNote(c, value, 0, 10, `${path}[${i}].value`),
+    });
+  });
+
+  // Probabilities of one option's outcomes must add up to 100
+  const total = outcomes.reduce((sum, o) => sum + o.probability, 0);
+  if (outcomes.length && Math.round(total) !== 100) {
+    outcomes.forEach(o => {
+      o.probability = total > 0 ? Math.round((o.probability / total) * 100) : Math.round(100 / outcomes.length);
+    });
+    c.repair(`${path} probabilities normalized to 100 (were ${total})`);
+  }
+  return outcomes;
+};
+
+const decisionMilestones = (c: Collector, v: unknown, path: string): DecisionMilestone[] => {
+  if (!Array.isArray(v)) {
+    c.repair(`${path} missing, defaulted to []`);
+    return [];
+  }
+  const milestones: DecisionMilestone[] = [];
+  v.forEach((m: unknown, i: number) => {
+    const label = isObject(m) ? asString(m.label) : undefined;
+    const date = isObject(m) ? asString(m.date) : undefined;
+    if (!isObject(m) || !label || !date) {
+      c.repair(`${path}[${i}] dropped (needs label and date)`);
+      return;
+    }
+    const milestone: DecisionMilestone = { date, label, type: oneOf(m.type, MILESTONE_TYPES) || 'checkpoint' };
+    const description = asString(m.description);
+    if (description) milestone.description = description;
+    milestones.push(milestone);
+  });
+  return milestones;
+};
+
+const decisionProjection = (c: Collector, v: unknown, path: string): ProjectionPoint[] => {
+  if (!Array.isArray(v)) {
+    c.repair(`${path} missing, defaulted to []`);
+    return [];
+  }
+  return v
+    .map((p: unknown, i: number): ProjectionPoint | null => {
+      const value = isObject(p) ? asNumber(p.value) : asNumber(p);
+      const timeLabel = (isObject(p) ? asString(p.timeLabel) : undefined) || PROJECTION_LABELS[i];
+      if (value === undefined || !timeLabel) {
+        c.repair(`${path}[${i}] dropped (needs a value)`);
+        return null;
+      }
+      return { timeLabel, value: clampWithNote(c, value, 0, 100, `${path}[${i}]`) };
+    })
+    .filter((p): p is ProjectionPoint => p !== null);
+};
+
+export const validateDecisionModel: Validator<DecisionModel> = (raw) => {
+  const c = new Collector();
+  const data = unwrap(raw, ['model', 'analysis', 'decision']);
+  if (!isObject(data) || !Array.isArray(data.options)) {
+    c.error('Expected an object with "question", "criteria" and an "options" array');
+    return c.result(null);
+  }
+
+  const criteria = decisionCriteria(c, data.criteria);
+  if (criteria.length === 0) {
+    c.error('"criteria" must be a non-empty array of { "name": string, "weight": 1-10 }');
+    return c.result(null);
+  }
+  const criteriaNames = criteria.map(cr => cr.name);
+
+  const options: DecisionOption[] = [];
+  const ids = new Set<string>();
+  data.options.forEach((o: unknown, i: number) => {
+    const path = `options[${i}]`;
+    if (!isObject(o) || !asString(o.name)) {
+      c.repair(`${path} dropped (no name)`);
+      return;
+    }
+    const name = asString(o.name)!;
+    let id = asString(o.id) || slugify(name);
+    if (ids.has(id)) {
+      id = `${id}-${i + 1}`;
+      c.repair(`${path}.id was duplicated`);
+    }
+    ids.add(id);
+
+    // Accept both {"Cost": 7} and [{criteria, score}] shapes; every criterion gets a score
+    const rawScores: Record<string, unknown> = {};
+    if (Array.isArray(o.scores)) {
+      o.scores.filter(isObject).forEach((s: any) => {
+        const key = asString(s.criteria ?? s.name);
+        if (key) rawScores[key] = s.score;
+      });
+    } else if (isObject(o.scores)) {
+      Object.assign(rawScores, o.scores);
+    } else {
+      c.error(`${path}.scores is missing; expected { "<criterion>": 1-10 } for every criterion`);
+      return;
+    }
+    const scores: Record<string, number> = {};
+    criteriaNames.forEach(criterion => {
+      const key = Object.keys(rawScores).find(k => matchName(k, [criterion]));
+      const score = key ? asNumber(rawScores[key]) : undefined;
+      if (score === undefined) {
+        c.repair(`${path} missing score for "${criterion}", defaulted to 5`);
+        scores[criterion] = 5;
+      } else {
+        scores[criterion] = clampWithNote(c, score, 1, 10, `${path}.scores.${criterion}`);
+      }
+    });
+
+    options.push({
+      id,
+      name,
+      summary: asString(o.summary) || '',
+      scores,
+      strengths: stringList(c, o.strengths, `${path}.strengths`),
+      weaknesses: stringList(c, o.weaknesses, `${path}.weaknesses`),
+      opportunities: stringList(c, o.opportunities, `${path}.opportunities`),
+      threats: stringList(c, o.threats, `${path}.threats`),
+      costs: costBenefitItems(c, o.costs, `${path}.costs`, `${id}-cost`),
+      benefits: costBenefitItems(c, o.benefits, `${path}.benefits`, `${id}-benefit`),
+      outcomes: decisionOutcomes(c, o.outcomes, `${path}.outcomes`),
+      milestones: decisionMilestones(c, o.milestones, `${path}.milestones`),
+      projection: decisionProjection(c, o.projection, `${path}.projection`),
+    });
+  });
+
+  if (options.length < 2) {
+    if (c.errors.length === 0) c.error('"options" needs at least two valid entries with a "name"');
+    return c.result(null);
+  }
+
+  // The recommendation may come back as an id or a name; fall back to the best weighted score
+  const recommended = asString(data.recommendedOptionId ?? data.recommendedOption ?? data.recommendation);
+  let recommendedOption = options.find(o => o.id === recommended)
+    || options.find(o => matchName(recommended, [o.name]));
+  if (!recommendedOption) {
+    const weighted = (o: DecisionOption) => criteria.reduce((sum, cr) => sum + cr.weight * o.scores[cr.name], 0);
+    recommendedOption = options.reduce((a, b) => weighted(b) > weighted(a) ? b : a);
+    c.repair(`recommendation "${recommended}" not found, using "${recommendedOption.name}"`);
+  }
+
+  return c.result({
+    question: asString(data.question) || 'Which option is best?',
+    criteria,
+    options,
+    recommendedOptionId: recommendedOption.id,
+    rationale: asString(data.rationale) || '',
+  });
+};